@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import type { BroadcastSummary } from './deliveryQueue.js';
+
+// Unconfirmed broadcasts are dropped after this long
+const DEFAULT_PENDING_TTL_MS = 30 * 60 * 1000;
+
+interface PendingBroadcast<T> {
+    adminChatId: number;
+    payload: T;
+    createdAt: number;
+}
+
+/**
+ * Admin broadcasts waiting for confirmation, by token sent in the ✅/❌ buttons
+ * Only the admin who created a broadcast can confirm or cancel it
+ */
+export class PendingBroadcasts<T> {
+    private readonly pending = new Map<string, PendingBroadcast<T>>();
+
+    constructor(private readonly ttlMs: number = DEFAULT_PENDING_TTL_MS) {}
+
+    /**
+     * Store a broadcast and return its token, dropping expired ones
+     */
+    add(adminChatId: number, payload: T, now: number = Date.now()): string {
+        for (const [token, broadcast] of this.pending) {
+            if (now - broadcast.createdAt >= this.ttlMs) {
+                this.pending.delete(token);
+            }
+        }
+
+        const token = crypto.randomBytes(6).toString('base64url');
+        this.pending.set(token, { adminChatId, payload, createdAt: now });
+        return token;
+    }
+
+    /**
+     * Remove a broadcast and return its payload to send or cancel it
+     * Returns null when it is unknown, expired or belongs to another admin (then it stays pending)
+     */
+    take(token: string, adminChatId: number, now: number = Date.now()): T | null {
+        const broadcast = this.pending.get(token);
+        if (!broadcast || broadcast.adminChatId !== adminChatId) return null;
+
+        this.pending.delete(token);
+        return now - broadcast.createdAt < this.ttlMs ? broadcast.payload : null;
+    }
+
+    /**
+     * Drop a broadcast, e.g., when its preview couldn't be shown
+     */
+    delete(token: string): void {
+        this.pending.delete(token);
+    }
+}
+
+/**
+ * Header of the broadcast preview, paused subscribers don't receive admin broadcasts either
+ */
+export function formatBroadcastPreview(recipients: number, paused: number): string {
+    return `📣 *Попередній перегляд розсилки*\n` +
+        `Отримувачів: ${recipients}` +
+        (paused > 0 ? `\n⏸ На паузі (не отримають): ${paused}` : '');
+}
+
+/**
+ * Report sent to the admin once a broadcast is done
+ */
+export function formatBroadcastReport(summary: BroadcastSummary): string {
+    return `✅ *Розсилку завершено*\n` +
+        `Доставлено: ${summary.sent}\n` +
+        `Не доставлено: ${summary.failed}`;
+}
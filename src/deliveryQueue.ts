@@ -0,0 +1,197 @@
+import type { DeliveryStatus } from './storage.js';
+
+/**
+ * Limits of the delivery queue
+ */
+export interface DeliveryQueueOptions {
+    concurrency: number;  // sends in flight at once
+    globalPerSecond: number;  // sends per second to all chats
+    perChatIntervalMs: number;  // minimal time between sends to one chat
+    maxRetries: number;  // retries of a failed send before giving up
+    retryBaseMs: number;  // backoff of the first retry without retry_after, doubled on every next one
+}
+
+/**
+ * Outcome of a queued send
+ */
+export interface DeliveryResult {
+    ok: boolean;
+    retries: number;
+    error: any;  // last error when not ok
+}
+
+/**
+ * Per-broadcast counts of delivered, retried and failed messages
+ */
+export interface BroadcastSummary {
+    sent: number;
+    retried: number;
+    failed: number;
+    skipped: number;  // not sent because of pause or quiet hours
+}
+
+interface Job {
+    chatId: number;
+    send: () => Promise<unknown>;
+    resolve: (result: DeliveryResult) => void;
+}
+
+// Telegram allows about 30 messages per second overall and one per second to a chat
+const DEFAULT_OPTIONS: DeliveryQueueOptions = {
+    concurrency: 5,
+    globalPerSecond: 25,
+    perChatIntervalMs: 1000,
+    maxRetries: 3,
+    retryBaseMs: 1000,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether a failed send may succeed later: rate limits, Telegram server errors and network errors
+ */
+function isRetryable(err: any): boolean {
+    const code = err?.response?.error_code;
+    return code === undefined || code === 429 || code >= 500;
+}
+
+/**
+ * Queue of outgoing messages shared by all broadcasts
+ * Sends run with bounded concurrency within the global and per-chat rate limits,
+ * a 429 response pauses the whole queue for its retry_after
+ */
+export class DeliveryQueue {
+    private readonly options: DeliveryQueueOptions;
+    private readonly pending: Job[] = [];
+    private active = 0;
+    private nextGlobalSlot = 0;
+    private readonly nextChatSlots = new Map<number, number>();
+    private pausedUntil = 0;
+
+    constructor(options: Partial<DeliveryQueueOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Queue a send to a chat, resolves once it is delivered or given up (never rejects)
+     */
+    send(chatId: number, send: () => Promise<unknown>): Promise<DeliveryResult> {
+        return new Promise(resolve => {
+            this.pending.push({ chatId, send, resolve });
+            this.startWorkers();
+        });
+    }
+
+    private startWorkers(): void {
+        while (this.active < this.options.concurrency && this.pending.length > 0) {
+            const job = this.pending.shift()!;
+            this.active++;
+            void this.process(job).then(result => {
+                this.active--;
+                if (this.active === 0 && this.pending.length === 0) {
+                    this.nextChatSlots.clear();
+                }
+                job.resolve(result);
+                this.startWorkers();
+            });
+        }
+    }
+
+    /**
+     * Wait until the chat may receive a message, then reserve the next global slot
+     * Waiting for the chat doesn't move the global slots, so one chat's backoff never delays the others
+     */
+    private async acquireSlot(chatId: number): Promise<void> {
+        for (;;) {
+            const now = Date.now();
+            const readyAt = Math.max(this.pausedUntil, this.nextChatSlots.get(chatId) ?? 0);
+            if (readyAt <= now) break;
+            await sleep(readyAt - now);
+        }
+
+        const now = Date.now();
+        const start = Math.max(now, this.nextGlobalSlot);
+        this.nextGlobalSlot = start + 1000 / this.options.globalPerSecond;
+        this.nextChatSlots.set(chatId, start + this.options.perChatIntervalMs);
+        if (start > now) {
+            await sleep(start - now);
+        }
+    }
+
+    private async process(job: Job): Promise<DeliveryResult> {
+        for (let retries = 0; ; retries++) {
+            await this.acquireSlot(job.chatId);
+            try {
+                await job.send();
+                return { ok: true, retries, error: null };
+            } catch (err: any) {
+                if (!isRetryable(err) || retries >= this.options.maxRetries) {
+                    return { ok: false, retries, error: err };
+                }
+
+                const retryAfter = err.response?.parameters?.retry_after;
+                const delayMs = retryAfter !== undefined
+                    ? retryAfter * 1000
+                    : this.options.retryBaseMs * 2 ** retries;
+                if (err.response?.error_code === 429) {
+                    // Flood control applies to the bot, not only this chat
+                    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+                    console.log(`[Delivery] Rate limited, pausing for ${delayMs} ms`);
+                } else {
+                    this.nextChatSlots.set(job.chatId, Date.now() + delayMs);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Wait for deliveries of a broadcast and log their summary
+ * Deliveries resolving to null were skipped
+ */
+export async function summarizeBroadcast(name: string, deliveries: Promise<DeliveryResult | null>[]): Promise<BroadcastSummary> {
+    const results = await Promise.all(deliveries);
+    const summary: BroadcastSummary = {
+        sent: results.filter(r => r?.ok).length,
+        retried: results.filter(r => r && r.retries > 0).length,
+        failed: results.filter(r => r && !r.ok).length,
+        skipped: results.filter(r => r === null).length,
+    };
+    console.log(`[Delivery] ${name}: sent ${summary.sent}, retried ${summary.retried}, failed ${summary.failed}, skipped ${summary.skipped}`);
+    return summary;
+}
+
+/**
+ * Check whether an error means the bot can't reach the chat: blocked, kicked or chat deleted
+ * Other 400 errors (e.g., malformed Markdown) are our fault and never deactivate anyone
+ */
+export function isChatUnreachable(err: any): boolean {
+    const code = err?.response?.error_code;
+    return code === 403 || (code === 400 && /chat not found/i.test(err.response.description ?? ''));
+}
+
+/**
+ * Record a delivery attempt, error is null on success
+ */
+export function updateDeliveryStatus(status: DeliveryStatus, error: any, now: Date = new Date()): DeliveryStatus {
+    if (!error) {
+        return { ...status, lastSuccessAt: now.toISOString(), consecutiveFailures: 0, failingSince: null };
+    }
+    return {
+        ...status,
+        consecutiveFailures: status.consecutiveFailures + 1,
+        failingSince: status.failingSince ?? now.toISOString(),
+        lastErrorCode: error.response?.error_code ?? null,
+        lastErrorDescription: error.response?.description ?? error.message ?? null,
+    };
+}
+
+/**
+ * Check whether a subscriber should be deactivated: the chat is unreachable
+ * and deliveries kept failing for the whole grace period
+ */
+export function shouldDeactivate(status: DeliveryStatus, error: any, graceMs: number, now: Date = new Date()): boolean {
+    return isChatUnreachable(error)
+        && status.failingSince !== null
+        && now.getTime() - Date.parse(status.failingSince) >= graceMs;
+}
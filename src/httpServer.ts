@@ -0,0 +1,130 @@
+import http from 'http';
+import crypto from 'crypto';
+
+/**
+ * Request handler, path parameters (":group") are passed in params
+ */
+export type RouteHandler = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    params: Record<string, string>,
+    url: URL
+) => void | Promise<void>;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: RouteHandler;
+}
+
+const routes: Route[] = [];
+let server: http.Server | null = null;
+
+/**
+ * Convert path like "/calendar/:group.ics" into a regex with named keys
+ */
+function compilePath(path: string): { pattern: RegExp; keys: string[] } {
+    const keys: string[] = [];
+    const source = path
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/:(\w+)/g, (_, key) => {
+            keys.push(key);
+            return '([^/]+?)';
+        });
+    return { pattern: new RegExp(`^${source}$`), keys };
+}
+
+/**
+ * Register handler for a method and path
+ */
+export function addRoute(method: string, path: string, handler: RouteHandler): void {
+    routes.push({ method, ...compilePath(path), handler });
+}
+
+/**
+ * Send a response with the given content type
+ */
+export function sendText(res: http.ServerResponse, status: number, body: string, contentType: string = 'text/plain; charset=utf-8'): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    sendText(res, status, JSON.stringify(body), 'application/json; charset=utf-8');
+}
+
+/**
+ * Check that request carries the token as "Authorization: Bearer <token>" or "?token=<token>"
+ */
+export function hasValidToken(req: http.IncomingMessage, url: URL, token: string): boolean {
+    const header = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const provided = header ?? url.searchParams.get('token') ?? '';
+
+    // Compare digests to keep comparison time independent of the token
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(provided), digest(token));
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    for (const route of routes) {
+        const match = url.pathname.match(route.pattern);
+        if (!match || route.method !== req.method) continue;
+
+        let params: Record<string, string>;
+        try {
+            params = Object.fromEntries(route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+        } catch {
+            sendJson(res, 400, { error: 'Malformed path' });
+            return;
+        }
+
+        try {
+            await route.handler(req, res, params, url);
+        } catch (err) {
+            console.error(`[HTTP] Error handling ${req.method} ${url.pathname}:`, err);
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: 'Internal error' });
+            }
+        }
+        return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+}
+
+/**
+ * Start HTTP server with registered routes
+ */
+export function startHttpServer(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        server = http.createServer((req, res) => {
+            handleRequest(req, res).catch(err => {
+                console.error(`[HTTP] Error handling ${req.method} ${req.url}:`, err);
+                if (!res.headersSent) {
+                    sendJson(res, 500, { error: 'Internal error' });
+                } else {
+                    res.end();
+                }
+            });
+        });
+        server.once('error', reject);
+        server.listen(port, () => {
+            console.log(`[HTTP] Listening on port ${port}`);
+            resolve();
+        });
+    });
+}
+
+/**
+ * Stop HTTP server if it is running
+ */
+export function stopHttpServer(): void {
+    server?.close();
+    server = null;
+}
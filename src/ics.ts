@@ -0,0 +1,109 @@
+import dayjs from 'dayjs';
+import { DaySchedule, TZ } from './types.js';
+
+const PRODID = '-//telegram-lybohora-bot//Outages//UK';
+const UID_DOMAIN = 'lybohora-bot';
+
+// Europe/Kyiv rules since 1996: EEST from the last Sunday of March, EET from the last Sunday of October
+const KYIV_TIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${TZ}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19701025T040000',
+    'TZOFFSETFROM:+0300',
+    'TZOFFSETTO:+0200',
+    'TZNAME:EET',
+    'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    'END:STANDARD',
+    'BEGIN:DAYLIGHT',
+    'DTSTART:19700329T030000',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0300',
+    'TZNAME:EEST',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+    'END:DAYLIGHT',
+    'END:VTIMEZONE',
+];
+
+/**
+ * Escape TEXT value (RFC 5545, 3.3.11)
+ */
+function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\n/g, '\\n');
+}
+
+/**
+ * Fold content line to at most 75 octets (RFC 5545, 3.1), never splitting a character
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;  // continuation lines start with a space
+        if (Buffer.byteLength(current + char) > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Parse publication time from "Інформація станом на 21:00 17.10.2026", null if missing
+ */
+function parsePublishedAt(infoTimestamp: string | null): dayjs.Dayjs | null {
+    const match = infoTimestamp?.match(/(\d{2}:\d{2}) (\d{2})\.(\d{2})\.(\d{4})/);
+    return match ? dayjs.tz(`${match[4]}-${match[3]}-${match[2]} ${match[1]}`, TZ) : null;
+}
+
+/**
+ * Build iCalendar feed with one event per outage of the given days
+ * UIDs depend on group, date and outage start, so removing an outage doesn't renumber the others;
+ * SEQUENCE and LAST-MODIFIED follow the schedule's publication time, so a re-published schedule updates events in place
+ */
+export function buildOutagesCalendar(group: string, days: DaySchedule[], now?: dayjs.Dayjs): string {
+    now = now || dayjs().tz(TZ);
+    const utcTime = (time: dayjs.Dayjs) => time.utc().format('YYYYMMDD[T]HHmmss[Z]');
+    const local = (time: dayjs.Dayjs) => time.tz(TZ).format('YYYYMMDD[T]HHmmss');
+
+    const events = days.flatMap(day => {
+        const publishedAt = parsePublishedAt(day.infoTimestamp) ?? now;
+        return day.outages.flatMap(r => [
+            'BEGIN:VEVENT',
+            `UID:${day.date}-${r.start.tz(TZ).format('HHmm')}-${group}@${UID_DOMAIN}`,
+            `DTSTAMP:${utcTime(now)}`,
+            `LAST-MODIFIED:${utcTime(publishedAt)}`,
+            // Minutes since epoch grow with every re-published schedule
+            `SEQUENCE:${Math.floor(publishedAt.unix() / 60)}`,
+            `DTSTART;TZID=${TZ}:${local(r.start)}`,
+            `DTEND;TZID=${TZ}:${local(r.end)}`,
+            `SUMMARY:${escapeText(`🔴 Відключення світла (група ${group})`)}`,
+            `DESCRIPTION:${escapeText(`Графік погодинних відключень ЛОЕ, група ${group}`)}`,
+            'TRANSP:OPAQUE',
+            'END:VEVENT',
+        ]);
+    });
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`Відключення світла, група ${group}`)}`,
+        `X-WR-TIMEZONE:${TZ}`,
+        ...KYIV_TIMEZONE,
+        ...events,
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
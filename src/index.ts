@@ -1,8 +1,26 @@
+import crypto from 'crypto';
 import { Telegraf, Context, Markup } from 'telegraf';
+import { message } from 'telegraf/filters';
+import type { InlineKeyboardMarkup } from 'telegraf/types';
 import axios from 'axios';
 import dotenv from 'dotenv';
 import cron from 'node-cron';
-import { ScheduleData, ScheduleMessageResult } from './types.js';
+import dayjs from 'dayjs';
+import {
+    Range,
+    ScheduleData,
+    ScheduleMessageResult,
+    DaySchedule,
+    ScheduleEvent,
+    ScheduleChange,
+    SCHEDULE_EVENT_TITLES,
+    AdminRole,
+    AdminPermission,
+    GROUPS,
+    Address,
+    PowerApiItem,
+    TZ,
+} from './types.js';
 import {
     formatGroupEmoji,
     extractGroupText,
@@ -12,27 +30,146 @@ import {
     parseOutageTimes,
     formatInfoTimestamp,
     calculateTotalHours,
-    parseGroupFromApi,
     formatHours,
+    isValidGroup,
+    formatAddress,
+    escapeMarkdown,
+    parseStartPayload,
+    formatGroupPayload,
+    formatDuration,
+    getDueReminders,
+    parseGroupSchedule,
+    parseAllGroupSchedules,
+    formatGroupsTable,
+    getOutageTimes,
+    isSameGroupSchedule,
+    isSameDaySchedule,
+    getCalendarWeeks,
+    calculateOutageStats,
+    formatHoursDelta,
+    isTodayScheduleChanged,
+    getScheduleChanges,
+    formatScheduleDiff,
+    formatRange,
+    parseTimeOfDay,
+    getDailyDueTime,
+    getRemainingRanges,
+    getUpcomingRanges,
+    parseTimeWindow,
+    isWithinTimeWindow,
+    parsePauseUntil,
+    parseAdminCommand,
+    hasAdminPermission,
+    parseChatIds,
 } from './utils.js';
-import { loadSubscribers, saveSubscribers, loadLastState, saveLastState, loadGroup, saveGroup } from './storage.js';
-
-const ADMIN_CHAT_ID = 433221506;
+import { searchCities, searchStreets, fetchBuildings, fetchGroupForAddress } from './powerApi.js';
+import { renderTimelinePng, TimelineDay } from './timeline.js';
+import { buildOutagesCalendar } from './ics.js';
+import { Counter, Gauge, Histogram, renderMetrics } from './metrics.js';
+import { DeliveryQueue, DeliveryResult, summarizeBroadcast, updateDeliveryStatus, shouldDeactivate } from './deliveryQueue.js';
+import { addRoute, sendText, sendJson, hasValidToken, startHttpServer, stopHttpServer, RouteHandler } from './httpServer.js';
+import { PendingBroadcasts, formatBroadcastPreview, formatBroadcastReport } from './broadcast.js';
+import { getWebhookConfig, addWebhookRoute, setWebhook, deleteOwnWebhook } from './webhook.js';
+import {
+    loadSubscribers,
+    saveSubscribers,
+    loadLastSchedule,
+    saveLastSchedule,
+    loadScheduleVersions,
+    loadHistoryDates,
+    loadDailySchedules,
+    saveScheduleVersions,
+    loadGroup,
+    saveGroup,
+    createLocation,
+    createSubscriber,
+    loadShares,
+    saveShare,
+    isReminderSent,
+    markReminderSent,
+    loadAdmins,
+    saveAdmins,
+    Subscriber,
+    Location,
+    Share,
+    QuietHours,
+} from './storage.js';
 
 dotenv.config();
 
 // --- Configuration ---
 const SCHEDULE_API_URL = 'https://api.loe.lviv.ua/api/menus?page=1&type=photo-grafic';
-const POWER_API_URL = 'https://power-api.loe.lviv.ua/api/pw_accounts?pagination=false&city.id=1558&street.id=19009';
-const BUILDING_NAME = '50';
 const DEFAULT_GROUP = '1.2';
 
-const POWER_API_HEADERS = {
-    'Accept': 'application/json, text/plain, */*',
-    'Origin': 'https://poweron.loe.lviv.ua',
-    'Referer': 'https://poweron.loe.lviv.ua/',
-    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+// Address used to auto-detect the default group
+const DEFAULT_ADDRESS = {
+    cityId: 1558,
+    streetId: 19009,
+    building: '50',
+};
+
+const BUILDINGS_PER_PAGE = 30;
+const MAX_LOCATIONS = 5;
+const MAX_LOCATION_LABEL_LENGTH = 30;
+
+const REMINDER_OPTIONS = [15, 30, 60, 120];
+const REMINDER_GRACE_MINUTES = 15;
+const REMINDER_KEEP_MS = 2 * 24 * 60 * 60 * 1000;
+const SCHEDULE_CACHE_TTL_MS = 5 * 60 * 1000;
+const API_CACHE_TTL_MS = 60 * 1000;
+
+const DIGEST_OPTIONS = ['07:00', '08:00', '09:00', '20:00', '21:00', '22:00'];
+const DIGEST_GRACE_MINUTES = 15;
+
+const HISTORY_KEEP_DAYS = 90;
+const MONTH_NAMES = [
+    'Січень', 'Лютий', 'Березень', 'Квітень', 'Травень', 'Червень',
+    'Липень', 'Серпень', 'Вересень', 'Жовтень', 'Листопад', 'Грудень',
+];
+const WEEKDAY_NAMES = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Нд'];
+const STATS_PERIODS = [7, 30];
+
+const QUIET_PRESETS = [
+    { start: '22:00', end: '07:00' },
+    { start: '23:00', end: '07:00' },
+    { start: '23:00', end: '08:00' },
+    { start: '00:00', end: '09:00' },
+];
+
+const PAUSE_OPTIONS = [
+    { label: '2 год', value: '2h' },
+    { label: '8 год', value: '8h' },
+    { label: 'До завтра', value: 'until tomorrow' },
+    { label: '3 дні', value: '3d' },
+];
+
+/**
+ * Message class for quiet hours handling
+ * 'urgent' may bypass quiet hours, 'reminder' is dropped instead of held (it would be outdated)
+ */
+type DeliveryKind = 'normal' | 'urgent' | 'reminder';
+
+// Embedded HTTP server (calendar feeds, REST API, metrics) is started only when a port is set
+const HTTP_PORT = Number(process.env.HTTP_PORT) || null;
+// Public base URL of the HTTP server, used in links sent to users
+const PUBLIC_URL = process.env.PUBLIC_URL?.replace(/\/+$/, '') || null;
+// REST API and /metrics require this token when set
+const API_TOKEN = process.env.API_TOKEN || null;
+// Updates are received through a webhook when WEBHOOK_URL is set, otherwise by long polling
+const WEBHOOK = getWebhookConfig();
+const DEFAULT_WEBHOOK_PORT = 8080;
+// Maintainers seeded on start (comma-separated chat ids)
+const OWNER_CHAT_IDS = parseChatIds(process.env.OWNER_CHAT_IDS);
+const ADMIN_CHAT_IDS = parseChatIds(process.env.ADMIN_CHAT_IDS);
+const ADMIN_ROLE_TITLES: Record<AdminRole, string> = {
+    owner: 'власник',
+    admin: 'адміністратор',
+    viewer: 'спостерігач',
 };
+// Unreachable (blocked, deleted) chats are deactivated after failing for this long
+const DELIVERY_GRACE_MS = (Number(process.env.DELIVERY_GRACE_HOURS) || 24) * 60 * 60 * 1000;
+// /healthz and /readyz fail when the schedule was not fetched successfully for this long
+const HEALTH_WINDOW_MS = (Number(process.env.HEALTH_WINDOW_MINUTES) || 30) * 60 * 1000;
 
 const BOT_TOKEN = process.env.BOT_TOKEN;
 
@@ -42,92 +179,320 @@ if (!BOT_TOKEN) {
 
 // --- Persistent state ---
 const subscribers = loadSubscribers();
-let lastState: string | null = loadLastState();
-let GROUP: string = loadGroup() || DEFAULT_GROUP;
+let defaultGroup: string = loadGroup() || DEFAULT_GROUP;
+const admins = loadAdmins();
+seedAdmins();
+
+// Last fetched schedule, reused by frequent jobs
+let lastSchedule: { data: ScheduleData; fetchedAt: number } | null = null;
+
+// Replies are always sent as API calls, so their results are available in webhook mode too
+const bot = new Telegraf<Context>(BOT_TOKEN, { telegram: { webhookReply: false } });
+
+// All messages to subscribers go through one queue to stay within Telegram rate limits
+const deliveryQueue = new DeliveryQueue();
+
+// --- Metrics and health ---
+
+const startedAt = Date.now();
+let botStarted = false;
+let lastSuccessfulFetchAt: number | null = null;
+
+const loeFetchDuration = new Histogram('lybohora_loe_fetch_duration_seconds', 'Duration of LOE API requests');
+const loeFetchFailures = new Counter('lybohora_loe_fetch_failures_total', 'Failed LOE API requests');
+const broadcastSent = new Counter('lybohora_broadcast_messages_sent_total', 'Broadcast messages delivered to subscribers');
+const broadcastFailures = new Counter('lybohora_broadcast_failures_total', 'Broadcast messages failed, by Telegram error code');
+const subscribersCount = new Gauge('lybohora_subscribers', 'Number of subscribers, by status');
+const lastCheckTimestamp = new Gauge('lybohora_last_successful_check_timestamp_seconds', 'Time of the last completed schedule check');
+const scheduleChangeEvents = new Counter('lybohora_schedule_change_events_total', 'Detected schedule change events, by event');
+
+/**
+ * Measure LOE request duration and count failures
+ * Fetchers that handle errors themselves report them as null
+ */
+async function measureFetch<T>(source: string, fetch: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+        const result = await fetch();
+        if (result === null) {
+            loeFetchFailures.inc({ source });
+        }
+        return result;
+    } catch (err) {
+        loeFetchFailures.inc({ source });
+        throw err;
+    } finally {
+        loeFetchDuration.observe((performance.now() - started) / 1000, { source });
+    }
+}
 
-const bot = new Telegraf<Context>(BOT_TOKEN);
+/**
+ * Check that the schedule was fetched successfully within the health window
+ * Right after start the window is counted from the start time
+ */
+function isHealthy(): boolean {
+    return Date.now() - (lastSuccessfulFetchAt ?? startedAt) < HEALTH_WINDOW_MS;
+}
 
 // --- Group API Functions ---
 
 /**
- * Fetch group from power API
+ * Fetch default group from power API
  * Returns group in format "X.Y" (e.g., "1.2") or null if failed
  */
 async function fetchGroupFromApi(): Promise<string | null> {
-    try {
-        const { data } = await axios.get<any>(POWER_API_URL, {
-            timeout: 10_000,
-            headers: POWER_API_HEADERS,
-        });
-
-        const accounts = data?.['hydra:member'] ?? [];
-        const account = accounts.find((a: any) => a.buildingName === BUILDING_NAME);
+    return measureFetch('fetchGroupFromApi', () => fetchGroupForAddress(DEFAULT_ADDRESS));
+}
 
-        if (!account?.chergGpv) {
-            console.error(`Building ${BUILDING_NAME} not found in API response`);
-            return null;
-        }
+/**
+ * Build notification about group change with the new group's schedule message
+ */
+function buildGroupChangeMessage(oldGroup: string, newGroup: string, scheduleMessage: string, header: string = ''): string {
+    return `⚠️ *Увага! Зміна групи*\n\n` +
+        header +
+        `Вашу групу було змінено:\n` +
+        `${formatGroupEmoji(oldGroup)} ➡️ ${formatGroupEmoji(newGroup)}\n\n` +
+        `📋 Новий графік:\n` +
+        scheduleMessage;
+}
 
-        const group = parseGroupFromApi(account.chergGpv);
-        if (!group) {
-            console.error(`Invalid group format: ${account.chergGpv}`);
-            return null;
+/**
+ * Check and update default group, notify subscribers following it if changed
+ */
+async function checkAndUpdateDefaultGroup(): Promise<void> {
+    const newGroup = await fetchGroupFromApi();
+
+    if (newGroup && newGroup !== defaultGroup) {
+        const oldGroup = defaultGroup;
+        defaultGroup = newGroup;
+        saveGroup(newGroup);
+
+        console.log(`Group changed: ${oldGroup} -> ${newGroup}`);
+
+        // Notify subscribers about group change and send new schedule
+        try {
+            // The schedule is the same for everyone, only the header differs
+            const { fullMessage } = await buildScheduleMessage(newGroup, await getCachedSchedule());
+            const deliveries = [];
+            for (const subscriber of subscribers.values()) {
+                const changed = subscriber.locations.filter(l => l.group === null);
+                if (changed.length === 0 || !subscriber.events.includes('group_changed')) continue;
+
+                const header = formatLocationsHeader(subscriber, changed);
+                deliveries.push(deliverToSubscriber(subscriber, buildGroupChangeMessage(oldGroup, newGroup, fullMessage, header)));
+            }
+            await summarizeBroadcast(`Group change ${oldGroup} -> ${newGroup}`, deliveries);
+        } catch (err) {
+            console.error('Error sending group change notification:', err);
         }
-        
-        console.log(`Fetched group from API: ${group}`);
-        return group;
-    } catch (err) {
-        console.error('Error fetching group from API:', err);
-        return null;
     }
 }
 
 /**
- * Check and update group, notify subscribers if changed
+ * Check and update groups of locations with a saved address
+ * Each distinct address is fetched once
  */
-async function checkAndUpdateGroup(): Promise<void> {
-    try {
-        const newGroup = await fetchGroupFromApi();
+async function checkAndUpdateAddressGroups(): Promise<void> {
+    const addresses = new Map<string, Address>();
+    for (const subscriber of subscribers.values()) {
+        for (const { address } of subscriber.locations) {
+            if (!address) continue;
+            addresses.set(`${address.cityId}:${address.streetId}:${address.building}`, address);
+        }
+    }
 
-        if (newGroup && newGroup !== GROUP) {
-            const oldGroup = GROUP;
-            GROUP = newGroup;
-            saveGroup(newGroup);
+    const deliveries: Promise<DeliveryResult | null>[] = [];
+    for (const [key, address] of addresses) {
+        const newGroup = await fetchGroupForAddress(address);
+        if (!newGroup) continue;
 
-            console.log(`Group changed: ${oldGroup} -> ${newGroup}`);
+        // Built on the first notification, shared by all subscribers of the address
+        let scheduleMessage: string | null = null;
+        for (const subscriber of [...subscribers.values()]) {
+            const changed = subscriber.locations.filter(l =>
+                l.address && `${l.address.cityId}:${l.address.streetId}:${l.address.building}` === key && l.group !== newGroup
+            );
+            if (changed.length === 0) continue;
 
-            // Notify subscribers about group change and send new schedule
-            const changeMessage =
-                `⚠️ *Увага! Зміна групи*\n\n` +
-                `Вашу групу було змінено:\n` +
-                `${formatGroupEmoji(oldGroup)} ➡️ ${formatGroupEmoji(newGroup)}\n\n` +
-                `📋 Новий графік:\n`;
+            const oldGroup = getLocationGroup(changed[0]);
+            subscribers.set(subscriber.chatId, {
+                ...subscriber,
+                locations: subscriber.locations.map(l => changed.includes(l) ? { ...l, group: newGroup } : l),
+            });
+            saveSubscribers(subscribers);
+            console.log(`Group changed for ${subscriber.chatId}: ${oldGroup} -> ${newGroup}`);
+            if (!subscriber.events.includes('group_changed')) continue;
 
             try {
-                const { fullMessage } = await buildScheduleMessage();
-                const fullNotification = changeMessage + fullMessage;
-
-                for (const [chatId] of subscribers) {
-                    try {
-                        await bot.telegram.sendMessage(chatId, fullNotification, { parse_mode: 'Markdown' });
-                    } catch (err: any) {
-                        if (err.response?.error_code === 403 || err.response?.error_code === 400) {
-                            console.log(`Removing inactive subscriber: ${chatId}`);
-                            subscribers.delete(chatId);
-                            saveSubscribers(subscribers);
-                        }
-                    }
-                }
-                console.log('Group change notification sent');
+                scheduleMessage ??= (await buildScheduleMessage(newGroup, await getCachedSchedule())).fullMessage;
+                const header = formatLocationsHeader(subscriber, changed);
+                deliveries.push(deliverToSubscriber(subscriber, buildGroupChangeMessage(oldGroup, newGroup, scheduleMessage, header)));
             } catch (err) {
                 console.error('Error sending group change notification:', err);
             }
         }
+    }
+
+    if (deliveries.length > 0) {
+        await summarizeBroadcast('Address group changes', deliveries);
+    }
+}
+
+/**
+ * Check and update default and per-address groups
+ */
+async function checkAndUpdateGroup(): Promise<void> {
+    try {
+        await checkAndUpdateDefaultGroup();
+        await checkAndUpdateAddressGroups();
     } catch (err) {
         console.error('Error checking group:', err);
     }
 }
 
+// --- Subscribers ---
+
+/**
+ * Get effective group of a location: chosen group or the default one
+ */
+function getLocationGroup(location: Location): string {
+    return location.group ?? defaultGroup;
+}
+
+/**
+ * Get locations of a chat; non-subscribers get a single default location
+ */
+function getChatLocations(chatId: number): Location[] {
+    return subscribers.get(chatId)?.locations ?? [createLocation()];
+}
+
+/**
+ * Format "📍 Label" header for messages about some of subscriber's locations
+ * Returns empty string for subscribers with a single location
+ */
+function formatLocationsHeader(subscriber: Subscriber, locations: Location[]): string {
+    if (subscriber.locations.length < 2) return '';
+    return `📍 *${locations.map(l => escapeMarkdown(l.label)).join(', ')}*\n`;
+}
+
+/**
+ * Describe where the location's group comes from
+ */
+function formatLocationSource(location: Location): string {
+    if (location.address) return `за адресою ${escapeMarkdown(formatAddress(location.address))}`;
+    return location.group ? 'обрана вручну' : 'визначена автоматично';
+}
+
+/**
+ * Move subscriber to the new id of a group chat upgraded to a supergroup
+ * A subscriber already using the new id is kept as is
+ */
+function migrateSubscriberChat(chatId: number, newChatId: number): void {
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) return;
+
+    console.log(`Chat ${chatId} migrated to ${newChatId}`);
+    subscribers.delete(chatId);
+    if (!subscribers.has(newChatId)) {
+        subscribers.set(newChatId, { ...subscriber, chatId: newChatId });
+    }
+    saveSubscribers(subscribers);
+}
+
+/**
+ * Record delivery result of a subscriber, deactivating chats unreachable for the grace period
+ */
+function recordDelivery(chatId: number, result: DeliveryResult): void {
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) return;
+
+    const delivery = updateDeliveryStatus(subscriber.delivery, result.ok ? null : result.error);
+    const deactivate = !result.ok && shouldDeactivate(delivery, result.error, DELIVERY_GRACE_MS);
+    if (deactivate) {
+        console.log(`Deactivating unreachable subscriber ${chatId}: ${delivery.lastErrorDescription}`);
+    }
+    subscribers.set(chatId, { ...subscriber, delivery, inactiveSince: deactivate ? new Date().toISOString() : subscriber.inactiveSince });
+
+    // Successes are saved with the next change, failures right away
+    if (!result.ok || subscriber.delivery.consecutiveFailures > 0) {
+        saveSubscribers(subscribers);
+    }
+}
+
+/**
+ * Send to a subscriber through the delivery queue, tracking their delivery status
+ */
+async function sendToChat(chatId: number, send: (chatId: number) => Promise<unknown>): Promise<DeliveryResult> {
+    const result = await deliveryQueue.send(chatId, () => send(chatId));
+
+    const newChatId = result.error?.response?.parameters?.migrate_to_chat_id;
+    if (newChatId) {
+        migrateSubscriberChat(chatId, newChatId);
+        return sendToChat(newChatId, send);
+    }
+
+    recordDelivery(chatId, result);
+    if (result.ok) {
+        broadcastSent.inc();
+    } else {
+        broadcastFailures.inc({ code: String(result.error.response?.error_code ?? 'network') });
+        console.error(`Failed to send to ${chatId}:`, result.error.message);
+    }
+    return result;
+}
+
+/**
+ * Send message to a subscriber (see sendToChat)
+ */
+function sendToSubscriber(chatId: number, message: string, silent: boolean = false): Promise<DeliveryResult> {
+    return sendToChat(chatId, id => bot.telegram.sendMessage(id, message, { parse_mode: 'Markdown', disable_notification: silent }));
+}
+
+/**
+ * Check whether subscriber paused notifications
+ */
+function isPaused(subscriber: Subscriber): boolean {
+    return !!subscriber.pausedUntil && Date.parse(subscriber.pausedUntil) > Date.now();
+}
+
+/**
+ * Deliver broadcast message to a subscriber respecting their pause and quiet hours
+ * Resolves to null when the message was skipped or held
+ */
+async function deliverToSubscriber(subscriber: Subscriber, message: string, kind: DeliveryKind = 'normal'): Promise<DeliveryResult | null> {
+    if (subscriber.inactiveSince) {
+        return null;
+    }
+
+    if (isPaused(subscriber)) {
+        console.log(`Skipping message for paused subscriber ${subscriber.chatId}`);
+        return null;
+    }
+
+    const quiet = subscriber.quietHours;
+
+    if (!quiet || !isWithinTimeWindow(quiet) || (kind === 'urgent' && quiet.allowUrgent)) {
+        return sendToSubscriber(subscriber.chatId, message);
+    }
+
+    if (quiet.mode === 'silent') {
+        return sendToSubscriber(subscriber.chatId, message, true);
+    }
+
+    if (kind === 'reminder') {
+        console.log(`Skipping reminder for ${subscriber.chatId} during quiet hours`);
+        return null;
+    }
+
+    // Hold: the summary with the current schedule is sent when quiet hours end
+    const current = subscribers.get(subscriber.chatId);
+    if (!current) return null;
+    subscribers.set(subscriber.chatId, { ...current, heldUpdates: current.heldUpdates + 1 });
+    saveSubscribers(subscribers);
+    console.log(`Holding update for ${subscriber.chatId} until quiet hours end`);
+    return null;
+}
+
 // --- Dynamic keyboards based on subscription status ---
 
 function getUserFullName(ctx: Context): string {
@@ -139,7 +504,7 @@ function getUserFullName(ctx: Context): string {
 
 function getReplyKeyboard(chatId: number) {
     const isSubscribed = subscribers.has(chatId);
-    const isAdmin = chatId === ADMIN_CHAT_ID;
+    const isAdmin = isAllowed(chatId, 'debug');
 
     const rows = [
         ['📊 Статус', '📋 Графік'],
@@ -155,12 +520,20 @@ function getReplyKeyboard(chatId: number) {
 
 function getInlineMenu(chatId: number) {
     const isSubscribed = subscribers.has(chatId);
-    const isAdmin = chatId === ADMIN_CHAT_ID;
+    const isAdmin = isAllowed(chatId, 'debug');
 
     const buttons = [
         [Markup.button.callback('📊 Статус', 'status')],
         [Markup.button.callback('📋 Графік', 'check')],
         [Markup.button.callback('🏠 Моя група', 'mygroup')],
+        [Markup.button.callback('🗂 Усі групи', 'groups')],
+        [Markup.button.callback('📜 Історія', 'history')],
+        [Markup.button.callback('📈 Статистика', 'stats')],
+        [Markup.button.callback('⏰ Нагадування', 'remind')],
+        [Markup.button.callback('🗓 Щоденне зведення', 'digest')],
+        [Markup.button.callback('🌙 Тихі години', 'quiet')],
+        [Markup.button.callback('⏸ Пауза', 'pause')],
+        [Markup.button.callback('🔔 Типи сповіщень', 'events')],
         [isSubscribed
             ? Markup.button.callback('🔕 Відписатись', 'unsubscribe')
             : Markup.button.callback('🔔 Підписатись', 'subscribe')
@@ -174,6 +547,185 @@ function getInlineMenu(chatId: number) {
     return Markup.inlineKeyboard(buttons);
 }
 
+function getLocationsMenu(subscriber: Subscriber) {
+    const rows = subscriber.locations.map((l, i) =>
+        [Markup.button.callback(`📍 ${l.label}`, `loc:${i}`)]
+    );
+
+    if (subscriber.locations.length < MAX_LOCATIONS) {
+        rows.push([Markup.button.callback('➕ Додати локацію', 'locadd')]);
+    }
+
+    return Markup.inlineKeyboard(rows);
+}
+
+function getGroupPicker(subscriber: Subscriber, index: number) {
+    const current = subscriber.locations[index].group;
+
+    const rows = [];
+    for (let i = 0; i < GROUPS.length; i += 4) {
+        rows.push(GROUPS.slice(i, i + 4).map(g =>
+            Markup.button.callback(g === current ? `✅ ${g}` : g, `setgroup:${index}:${g}`)
+        ));
+    }
+    rows.push([Markup.button.callback(current === null ? '✅ 🔄 Автоматично' : '🔄 Автоматично', `setgroup:${index}:auto`)]);
+    rows.push([Markup.button.callback('📍 Вказати адресу', `address:${index}`)]);
+
+    rows.push([Markup.button.callback('👨‍👩‍👧 Поділитися з родиною', `share:${index}`)]);
+
+    if (subscriber.locations.length > 1) {
+        rows.push([Markup.button.callback('🗑 Видалити локацію', `locdel:${index}`)]);
+    }
+
+    return Markup.inlineKeyboard(rows);
+}
+
+function getBroadcastConfirmKeyboard(token: string) {
+    return Markup.inlineKeyboard([
+        Markup.button.callback('✅ Надіслати', `broadcast:send:${token}`),
+        Markup.button.callback('❌ Скасувати', `broadcast:cancel:${token}`),
+    ]);
+}
+
+function getShareKeyboard(share: Share) {
+    const text = share.notifyInviter
+        ? '🔔 Повідомляти мене про нових учасників'
+        : '🔕 Не повідомляти про нових учасників';
+    return Markup.inlineKeyboard([Markup.button.callback(text, `sharenotify:${share.token}`)]);
+}
+
+function getReminderPicker(subscriber: Subscriber) {
+    const current = subscriber.reminderMinutes;
+    const options = REMINDER_OPTIONS.map(m =>
+        Markup.button.callback(m === current ? `✅ ${m} хв` : `${m} хв`, `remind:${m}`)
+    );
+    return Markup.inlineKeyboard([
+        options,
+        [Markup.button.callback(current === null ? '✅ 🔕 Вимкнено' : '🔕 Вимкнути', 'remind:off')],
+    ]);
+}
+
+function getDigestPicker(subscriber: Subscriber) {
+    const current = subscriber.digestTime;
+    const options = DIGEST_OPTIONS.map(t =>
+        Markup.button.callback(t === current ? `✅ ${t}` : t, `digest:${t}`)
+    );
+    return Markup.inlineKeyboard([
+        options.slice(0, 3),
+        options.slice(3),
+        [Markup.button.callback(current === null ? '✅ 🔕 Вимкнено' : '🔕 Вимкнути', 'digest:off')],
+    ]);
+}
+
+function getEventsMenu(subscriber: Subscriber) {
+    const events = Object.keys(SCHEDULE_EVENT_TITLES) as ScheduleEvent[];
+    return Markup.inlineKeyboard(events.map(e => [Markup.button.callback(
+        `${subscriber.events.includes(e) ? '✅' : '⬜️'} ${SCHEDULE_EVENT_TITLES[e]}`,
+        `event:${e}`
+    )]));
+}
+
+function getPauseMenu(subscriber: Subscriber) {
+    const rows = [PAUSE_OPTIONS.map((o, i) => Markup.button.callback(o.label, `pause:${i}`))];
+    if (isPaused(subscriber)) {
+        rows.push([Markup.button.callback('▶️ Відновити зараз', 'pause:resume')]);
+    }
+    return Markup.inlineKeyboard(rows);
+}
+
+function getQuietHoursMenu(subscriber: Subscriber) {
+    const quiet = subscriber.quietHours;
+    const presets = QUIET_PRESETS.map((p, i) => {
+        const isCurrent = quiet?.start === p.start && quiet?.end === p.end;
+        return Markup.button.callback(`${isCurrent ? '✅ ' : ''}${p.start}–${p.end}`, `quiet:preset:${i}`);
+    });
+
+    const rows = [presets.slice(0, 2), presets.slice(2)];
+    if (quiet) {
+        rows.push([Markup.button.callback(
+            quiet.mode === 'silent' ? '🔇 Надсилати без звуку' : '📥 Відкладати до ранку',
+            'quiet:mode'
+        )]);
+        rows.push([Markup.button.callback(
+            quiet.allowUrgent ? '⚡ Термінові зміни: зі звуком' : '⚡ Термінові зміни: як усі',
+            'quiet:urgent'
+        )]);
+        rows.push([Markup.button.callback('🔔 Вимкнути тихі години', 'quiet:off')]);
+    }
+
+    return Markup.inlineKeyboard(rows);
+}
+
+/**
+ * Month calendar of archived schedules, days with data are marked and clickable
+ */
+function getHistoryCalendar(groups: string[], month: dayjs.Dayjs) {
+    const dates = groups.map(loadHistoryDates);
+    const isCurrentMonth = !month.isBefore(dayjs().tz(TZ), 'month');
+
+    const rows = [
+        [
+            Markup.button.callback('‹', `history:${month.subtract(1, 'month').format('YYYY-MM')}`),
+            Markup.button.callback(`${MONTH_NAMES[month.month()]} ${month.year()}`, 'noop'),
+            isCurrentMonth
+                ? Markup.button.callback(' ', 'noop')
+                : Markup.button.callback('›', `history:${month.add(1, 'month').format('YYYY-MM')}`),
+        ],
+        WEEKDAY_NAMES.map(d => Markup.button.callback(d, 'noop')),
+    ];
+
+    for (const week of getCalendarWeeks(month)) {
+        rows.push(week.map(day => {
+            if (!day) return Markup.button.callback(' ', 'noop');
+            const date = day.format('YYYY-MM-DD');
+            return dates.some(d => d.has(date))
+                ? Markup.button.callback(`${day.date()}•`, `histday:${date}`)
+                : Markup.button.callback(String(day.date()), 'noop');
+        }));
+    }
+
+    return Markup.inlineKeyboard(rows);
+}
+
+function getStatsPeriodPicker(periodDays: number) {
+    return Markup.inlineKeyboard([STATS_PERIODS.map(p =>
+        Markup.button.callback(p === periodDays ? `✅ ${p} днів` : `${p} днів`, `stats:${p}`)
+    )]);
+}
+
+function getSearchResultsKeyboard(items: PowerApiItem[], action: string) {
+    return Markup.inlineKeyboard([
+        ...items.slice(0, 10).map(item => [Markup.button.callback(item.name, `${action}:${item.id}`)]),
+        [Markup.button.callback('❌ Скасувати', 'addr_cancel')],
+    ]);
+}
+
+function getBuildingPicker(buildings: string[], page: number) {
+    const start = page * BUILDINGS_PER_PAGE;
+    const pageBuildings = buildings.slice(start, start + BUILDINGS_PER_PAGE);
+
+    const rows = [];
+    for (let i = 0; i < pageBuildings.length; i += 5) {
+        rows.push(pageBuildings.slice(i, i + 5).map((b, j) =>
+            Markup.button.callback(b, `addr_building:${start + i + j}`)
+        ));
+    }
+
+    const navigation = [];
+    if (page > 0) {
+        navigation.push(Markup.button.callback('◀️', `addr_page:${page - 1}`));
+    }
+    if (start + BUILDINGS_PER_PAGE < buildings.length) {
+        navigation.push(Markup.button.callback('▶️', `addr_page:${page + 1}`));
+    }
+    if (navigation.length > 0) {
+        rows.push(navigation);
+    }
+    rows.push([Markup.button.callback('❌ Скасувати', 'addr_cancel')]);
+
+    return Markup.inlineKeyboard(rows);
+}
+
 // --- API Functions ---
 
 /**
@@ -181,9 +733,10 @@ function getInlineMenu(chatId: number) {
  * Returns both today and tomorrow schedules
  */
 async function parseSite(): Promise<ScheduleData> {
-    const { data } = await axios.get<any>(SCHEDULE_API_URL, {
+    const { data } = await measureFetch('parseSite', () => axios.get<any>(SCHEDULE_API_URL, {
         timeout: 10_000,
-    });
+    }));
+    lastSuccessfulFetchAt = Date.now();
 
     const menuItems = data?.['hydra:member']?.[0]?.['menuItems'] ?? data?.[0]?.['menuItems'] ?? [];
 
@@ -191,20 +744,54 @@ async function parseSite(): Promise<ScheduleData> {
     const todayItem = menuItems.find((item: any) => item.name === 'Today' || item.orders === 0);
     const tomorrowItem = menuItems.find((item: any) => item.name === 'Tomorrow' || item.orders === 1);
 
-    return {
+    const schedule = {
         today: todayItem?.rawHtml ?? '',
         tomorrow: tomorrowItem?.rawHtml ?? '',
     };
+    lastSchedule = { data: schedule, fetchedAt: Date.now() };
+    archiveScheduleVersions(schedule);
+
+    return schedule;
+}
+
+/**
+ * Archive day schedules of all groups that differ from their last archived version
+ */
+function archiveScheduleVersions(schedule: ScheduleData): void {
+    const seenAt = new Date().toISOString();
+    const versions = [...parseAllGroupSchedules(schedule).values()]
+        .flatMap(s => [s.today, s.tomorrow])
+        .filter((d): d is DaySchedule => d !== null)
+        .filter(d => {
+            const archived = loadScheduleVersions(d.group, d.date);
+            return !isSameDaySchedule(archived[archived.length - 1] ?? null, d);
+        })
+        .map(d => ({ ...d, seenAt }));
+
+    if (versions.length > 0) {
+        console.log(`Archiving ${versions.length} new schedule versions`);
+        saveScheduleVersions(versions, HISTORY_KEEP_DAYS);
+    }
+}
+
+/**
+ * Get recently fetched schedule, fetching it again if older than maxAgeMs
+ */
+async function getCachedSchedule(maxAgeMs: number = SCHEDULE_CACHE_TTL_MS): Promise<ScheduleData> {
+    if (lastSchedule && Date.now() - lastSchedule.fetchedAt < maxAgeMs) {
+        return lastSchedule.data;
+    }
+    return parseSite();
 }
 
 /**
- * Build schedule content (without timestamp) for comparison
+ * Render schedule content (without timestamp)
  */
-function buildScheduleContent(todayGroupText: string, tomorrowGroupText: string | null): string {
+function buildScheduleContent(today: DaySchedule, tomorrow: DaySchedule | null, group: string): string {
     let content = '';
 
     // Add today's outage times
-    const todayTimes = parseOutageTimes(todayGroupText);
+    const todayTimes = getOutageTimes(today);
     if (todayTimes.length > 0) {
         todayTimes.forEach(t => {
             content += `⏱️ ${t}\n`;
@@ -215,16 +802,16 @@ function buildScheduleContent(todayGroupText: string, tomorrowGroupText: string
         content += `\n⏱️ ${formatHours(totalHours)}\n`;
     } else {
         // Check if electricity is available all day
-        if (todayGroupText.includes('Електроенергія є')) {
+        if (today.powerAllDay) {
             content += '✅ Електроенергія є весь день\n';
         } else {
-            content += `*${GROUP}*: дані недоступні\n`;
+            content += `*${group}*: дані недоступні\n`;
         }
     }
 
     // Add tomorrow's schedule if available
-    if (tomorrowGroupText) {
-        const tomorrowTimes = parseOutageTimes(tomorrowGroupText);
+    if (tomorrow) {
+        const tomorrowTimes = getOutageTimes(tomorrow);
         if (tomorrowTimes.length > 0) {
             content += '\n📅 Завтра:\n';
             tomorrowTimes.forEach(t => {
@@ -234,13 +821,13 @@ function buildScheduleContent(todayGroupText: string, tomorrowGroupText: string
             // Calculate and add total hours
             const totalHours = calculateTotalHours(tomorrowTimes);
             content += `\n⏱️ ${formatHours(totalHours)}\n`;
-        } else if (tomorrowGroupText.includes('Електроенергія є')) {
+        } else if (tomorrow.powerAllDay) {
             content += '\n📅 Завтра: ✅ Електроенергія є весь день\n';
         }
     }
 
     // Add group emoji at the bottom
-    const emojiGroup = formatGroupEmoji(GROUP);
+    const emojiGroup = formatGroupEmoji(group);
     content += `\n${emojiGroup}`;
 
     return content;
@@ -248,201 +835,1572 @@ function buildScheduleContent(todayGroupText: string, tomorrowGroupText: string
 
 /**
  * Build message for /check command
- * Returns both full message (with timestamp) and schedule content (for comparison)
+ * Returns full message (with timestamp), schedule content and the parsed schedule
+ * Pass already fetched schedule data to avoid refetching it for every group
  */
-async function buildScheduleMessage(): Promise<ScheduleMessageResult> {
-    const { today: todayHtml, tomorrow: tomorrowHtml } = await parseSite();
+async function buildScheduleMessage(group: string, schedule?: ScheduleData): Promise<ScheduleMessageResult> {
+    const groupSchedule = parseGroupSchedule(schedule ?? await parseSite(), group);
+    const { today, tomorrow } = groupSchedule;
 
-    if (!todayHtml) {
-        const errorMsg = '❌ Дані для Групи ' + GROUP + ' не знайдено';
+    if (!today) {
+        const errorMsg = '❌ Дані для Групи ' + group + ' не знайдено';
         return { fullMessage: errorMsg, scheduleContent: errorMsg };
     }
 
-    const todayGroupText = extractGroupText(todayHtml, GROUP);
-    const tomorrowGroupText = extractGroupText(tomorrowHtml, GROUP);
-    const infoText = extractInfoText(todayHtml);
-
-    if (!todayGroupText) {
-        const errorMsg = '❌ Дані для Групи ' + GROUP + ' не знайдено';
-        return { fullMessage: errorMsg, scheduleContent: errorMsg };
-    }
-
-    // Build schedule content (without timestamp) for comparison
-    const scheduleContent = buildScheduleContent(todayGroupText, tomorrowGroupText);
+    const scheduleContent = buildScheduleContent(today, tomorrow, group);
 
     // Build full message with timestamp for display
-    const fullMessage = formatInfoTimestamp(infoText) + scheduleContent;
+    const fullMessage = formatInfoTimestamp(today.infoTimestamp) + scheduleContent;
 
     return { fullMessage, scheduleContent };
 }
 
 /**
- * Build status message
+ * Build status of a single group
  */
-async function buildStatusMessage(): Promise<string> {
-    const { today: todayHtml, tomorrow: tomorrowHtml } = await parseSite();
-
-    const todayGroupText = extractGroupText(todayHtml, GROUP);
-    const tomorrowGroupText = extractGroupText(tomorrowHtml, GROUP);
+function buildGroupStatus(group: string, schedule: ScheduleData): string {
+    const todayGroupText = extractGroupText(schedule.today, group);
+    const tomorrowGroupText = extractGroupText(schedule.tomorrow, group);
 
     if (!todayGroupText) {
         return '❌ Дані для групи не знайдено';
     }
 
     const status = getElectricityStatus(todayGroupText, tomorrowGroupText);
-    return `⚡ *Статус електроенергії*\n\n${formatElectricityStatus(status)}`;
+    return formatElectricityStatus(status);
 }
 
-// --- Shared Handler Functions ---
+/**
+ * Build status message, one block per location
+ */
+async function buildStatusMessage(locations: Location[]): Promise<string> {
+    const schedule = await parseSite();
 
-async function handleCheckCommand(ctx: Context) {
-    try {
-        const { fullMessage } = await buildScheduleMessage();
-        await ctx.reply(fullMessage, { parse_mode: 'Markdown' });
-    } catch (error) {
-        console.error('Error in check command:', error);
-        await ctx.reply('❌ Помилка при перевірці сайту');
+    if (locations.length === 1) {
+        const group = getLocationGroup(locations[0]);
+        return `⚡ *Статус електроенергії* ${formatGroupEmoji(group)}\n\n${buildGroupStatus(group, schedule)}`;
     }
+
+    const blocks = locations.map(l => {
+        const group = getLocationGroup(l);
+        return `📍 *${escapeMarkdown(l.label)}* ${formatGroupEmoji(group)}\n${buildGroupStatus(group, schedule)}`;
+    });
+    return `⚡ *Статус електроенергії*\n\n${blocks.join('\n\n➖➖➖\n\n')}`;
 }
 
-async function handleStatusCommand(ctx: Context) {
-    try {
-        const statusMessage = await buildStatusMessage();
-        await ctx.reply(statusMessage, { parse_mode: 'Markdown' });
-    } catch (err) {
-        console.error('Error in status command:', err);
-        await ctx.reply('❌ Помилка при перевірці статусу');
+/**
+ * Build schedule message, one block per location
+ * Pass already fetched schedule data to avoid refetching it for every subscriber
+ */
+async function buildLocationsScheduleMessage(locations: Location[], scheduleData?: ScheduleData): Promise<string> {
+    const schedule = scheduleData ?? await parseSite();
+
+    if (locations.length === 1) {
+        const { fullMessage } = await buildScheduleMessage(getLocationGroup(locations[0]), schedule);
+        return fullMessage;
+    }
+
+    const blocks = [];
+    for (const l of locations) {
+        const { scheduleContent } = await buildScheduleMessage(getLocationGroup(l), schedule);
+        blocks.push(`📍 *${escapeMarkdown(l.label)}*\n${scheduleContent}`);
     }
+    return formatInfoTimestamp(extractInfoText(schedule.today)) + blocks.join('\n\n➖➖➖\n\n');
 }
 
-function handleSubscribe(ctx: Context) {
-    const chatId = ctx.chat?.id;
-    if (!chatId) return;
+/**
+ * Build compact overview of all groups for today and tomorrow
+ */
+async function buildGroupsMessage(): Promise<string> {
+    const schedule = await getCachedSchedule();
+    const groupSchedules = [...parseAllGroupSchedules(schedule).values()];
 
-    const name = getUserFullName(ctx);
-    
-    if (subscribers.has(chatId)) {
-        // Update name in case user changed it in Telegram
-        subscribers.set(chatId, { chatId, name });
-        saveSubscribers(subscribers);
-        return ctx.reply('ℹ️ Ви вже підписані на розсилку.');
+    const formatDay = (title: string, days: DaySchedule[]) =>
+        `📅 *${title}, ${dayjs(days[0].date).format('DD.MM')}*\n${formatGroupsTable(days)}`;
+
+    const today = groupSchedules.flatMap(s => s.today ? [s.today] : []);
+    const tomorrow = groupSchedules.flatMap(s => s.tomorrow ? [s.tomorrow] : []);
+
+    if (today.length === 0) {
+        return '❌ Дані графіку не знайдено';
     }
 
-    subscribers.set(chatId, { chatId, name });
-    saveSubscribers(subscribers);
-    ctx.reply('✅ Ви підписані на розсилку.', getReplyKeyboard(chatId));
+    return formatInfoTimestamp(today[0].infoTimestamp) +
+        '🗂 *Графік усіх груп*\n\n' +
+        formatDay('Сьогодні', today) + '\n\n' +
+        (tomorrow.length > 0 ? formatDay('Завтра', tomorrow) : '📅 Графік на завтра ще не опубліковано');
 }
 
-function handleUnsubscribe(ctx: Context) {
+// --- Shared Handler Functions ---
+
+async function handleCheckCommand(ctx: Context) {
     const chatId = ctx.chat?.id;
     if (!chatId) return;
 
-    console.log(`Unsubscribe request from chatId: ${chatId}, subscribers: [${[...subscribers.keys()].join(', ')}]`);
-
-    if (!subscribers.has(chatId)) {
-        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    try {
+        const message = await buildLocationsScheduleMessage(getChatLocations(chatId));
+        await ctx.reply(message, {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([Markup.button.callback('🖼 Показати зображенням', 'timeline')]),
+        });
+    } catch (error) {
+        console.error('Error in check command:', error);
+        await ctx.reply('❌ Помилка при перевірці сайту');
     }
-    subscribers.delete(chatId);
-    saveSubscribers(subscribers);
-    ctx.reply('❌ Ви відписані від розсилки.', getReplyKeyboard(chatId));
 }
 
-function handleDebug(ctx: Context) {
-    const chatId = ctx.chat?.id;
-    if (chatId !== ADMIN_CHAT_ID) {
-        return ctx.reply('⛔ Доступ заборонено');
-    }
+/**
+ * Build iCalendar feed of today's and tomorrow's outages of a group
+ */
+async function buildGroupCalendar(group: string): Promise<string> {
+    const { today, tomorrow } = parseGroupSchedule(await getCachedSchedule(), group);
+    return buildOutagesCalendar(group, [today, tomorrow].filter((d): d is DaySchedule => d !== null));
+}
 
-    const subscribersList = [...subscribers.values()];
+/**
+ * Get URL of the subscribable calendar feed of a group, null if the feed is not served
+ */
+function getCalendarFeedUrl(group: string): string | null {
+    return HTTP_PORT && PUBLIC_URL ? `${PUBLIC_URL}/calendar/${group}.ics` : null;
+}
+
+/**
+ * Send .ics file with outages, one per group of chat's locations
+ */
+async function handleIcs(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    try {
+        const groups = [...new Set(getChatLocations(chatId).map(getLocationGroup))];
+        for (const group of groups) {
+            const feedUrl = getCalendarFeedUrl(group);
+            await ctx.replyWithDocument(
+                { source: Buffer.from(await buildGroupCalendar(group)), filename: `outages-${group}.ics` },
+                {
+                    caption: `📆 Відключення на сьогодні й завтра ${formatGroupEmoji(group)}` +
+                        (feedUrl ? `\n\n🔗 Підписатися, щоб календар оновлювався сам:\n${feedUrl}` : ''),
+                }
+            );
+        }
+    } catch (error) {
+        console.error('Error in ics command:', error);
+        await ctx.reply('❌ Помилка при перевірці сайту');
+    }
+}
+
+/**
+ * Send 24-hour timeline image of today and tomorrow, one per group of chat's locations
+ */
+async function handleTimeline(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    try {
+        const schedule = await getCachedSchedule();
+        const byGroup = new Map<string, Location[]>();
+        for (const l of getChatLocations(chatId)) {
+            const group = getLocationGroup(l);
+            byGroup.set(group, [...(byGroup.get(group) ?? []), l]);
+        }
+
+        for (const [group, locations] of byGroup) {
+            const { today, tomorrow } = parseGroupSchedule(schedule, group);
+            const days: TimelineDay[] = [];
+            if (today) days.push({ label: `Сьогодні, ${dayjs(today.date).format('DD.MM')}`, schedule: today });
+            if (tomorrow) days.push({ label: `Завтра, ${dayjs(tomorrow.date).format('DD.MM')}`, schedule: tomorrow });
+
+            if (days.length === 0) {
+                await ctx.reply('❌ Дані для Групи ' + group + ' не знайдено');
+                continue;
+            }
+
+            // Emoji group label goes to the caption, the image is rendered without emoji fonts
+            const labels = byGroup.size > 1 ? `📍 ${locations.map(l => l.label).join(', ')} ` : '';
+            await ctx.replyWithPhoto(
+                { source: renderTimelinePng(`Група ${group}`, days) },
+                { caption: `${labels}${formatGroupEmoji(group)}` }
+            );
+        }
+    } catch (error) {
+        console.error('Error rendering timeline:', error);
+        await ctx.reply('❌ Не вдалося побудувати зображення');
+    }
+}
+
+async function handleStatusCommand(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    try {
+        const statusMessage = await buildStatusMessage(getChatLocations(chatId));
+        await ctx.reply(statusMessage, { parse_mode: 'Markdown' });
+    } catch (err) {
+        console.error('Error in status command:', err);
+        await ctx.reply('❌ Помилка при перевірці статусу');
+    }
+}
+
+function handleSubscribe(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const name = getUserFullName(ctx);
+    const existing = subscribers.get(chatId);
+    
+    if (existing) {
+        // Update name in case user changed it in Telegram
+        subscribers.set(chatId, { ...existing, name });
+        saveSubscribers(subscribers);
+        return ctx.reply('ℹ️ Ви вже підписані на розсилку.');
+    }
+
+    subscribers.set(chatId, createSubscriber(chatId, name));
+    saveSubscribers(subscribers);
+    ctx.reply(
+        `✅ Ви підписані на розсилку для групи ${formatGroupEmoji(defaultGroup)}.\n` +
+        `Змінити групу або додати локації можна через 🏠 Моя група.`,
+        getReplyKeyboard(chatId)
+    );
+}
+
+function handleUnsubscribe(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    console.log(`Unsubscribe request from chatId: ${chatId}, subscribers: [${[...subscribers.keys()].join(', ')}]`);
+
+    if (!subscribers.has(chatId)) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+    subscribers.delete(chatId);
+    saveSubscribers(subscribers);
+    ctx.reply('❌ Ви відписані від розсилки.', getReplyKeyboard(chatId));
+}
+
+function handleDebug(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!isAllowed(chatId, 'debug')) {
+        return ctx.reply('⛔ Доступ заборонено');
+    }
+
+    const subscribersList = [...subscribers.values()];
     const subscribersInfo = subscribersList.length > 0
-        ? subscribersList.map(s => `  • ${s.name} (\`${s.chatId}\`)`).join('\n')
+        ? subscribersList.map(s =>
+            `  • ${s.name} (\`${s.chatId}\`) — ${s.locations.map(l => l.group ?? 'авто').join(', ')}` +
+            (s.inactiveSince ? ` 💤 ${escapeMarkdown(s.delivery.lastErrorDescription ?? '')}` : '')
+        ).join('\n')
         : '  (немає)';
+    const groupsInUse = [...new Set(subscribersList.flatMap(s => s.locations.map(getLocationGroup)))];
+    const statesInfo = groupsInUse
+        .map(g => `  • ${g}: ${loadLastSchedule(g) ? '✅ set' : '❌ null'}`)
+        .join('\n');
+
+    const info = [
+        `📊 *Debug Info*`,
+        ``,
+        `👥 *Підписники (${subscribersList.length}, неактивних ${subscribersList.filter(s => s.inactiveSince).length}):*`,
+        subscribersInfo,
+        ``,
+        `🏠 *Група за замовчуванням:* \`${defaultGroup}\``,
+        `📄 *Last Schedule:*`,
+        statesInfo || '  (немає)',
+    ].join('\n');
+
+    ctx.reply(info, { parse_mode: 'Markdown' });
+}
+
+async function handleGroups(ctx: Context) {
+    try {
+        await ctx.reply(await buildGroupsMessage(), { parse_mode: 'Markdown' });
+    } catch (error) {
+        console.error('Error in groups command:', error);
+        await ctx.reply('❌ Помилка при перевірці сайту');
+    }
+}
+
+async function handleMyGroup(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply(
+            `🏠 *Ваша група:* ${formatGroupEmoji(defaultGroup)} _(визначена автоматично)_\n\n` +
+            'ℹ️ Щоб обрати свою групу, підпишіться на розсилку.',
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    const lines = subscriber.locations.map(l =>
+        `📍 *${escapeMarkdown(l.label)}* — ${formatGroupEmoji(getLocationGroup(l))} _(${formatLocationSource(l)})_`
+    );
+
+    await ctx.reply(
+        `🏠 *Ваші локації:*\n\n${lines.join('\n')}\n\nОберіть локацію, щоб змінити групу:`,
+        { parse_mode: 'Markdown', ...getLocationsMenu(subscriber) }
+    );
+}
+
+async function handleLocation(ctx: Context, index: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    const location = subscriber?.locations[index];
+    if (!subscriber || !location) return;
+
+    await ctx.reply(
+        `📍 *${escapeMarkdown(location.label)}* — ${formatGroupEmoji(getLocationGroup(location))} _(${formatLocationSource(location)})_\n\n` +
+        'Оберіть групу:',
+        { parse_mode: 'Markdown', ...getGroupPicker(subscriber, index) }
+    );
+}
+
+async function handleSetGroup(ctx: Context, index: number, group: string | null) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+    if (!subscriber.locations[index]) return;
+
+    // Manually chosen group replaces the saved address
+    const locations = subscriber.locations.map((l, i) => i === index ? { ...l, group, address: null } : l);
+    subscribers.set(chatId, { ...subscriber, locations });
+    saveSubscribers(subscribers);
+
+    await ctx.reply(
+        group
+            ? `✅ Групу змінено на ${formatGroupEmoji(group)}`
+            : `🔄 Група визначається автоматично: ${formatGroupEmoji(defaultGroup)}`
+    );
+    await handleCheckCommand(ctx);
+}
+
+// --- Location management ---
+
+// Chats that were asked to type a label for a new location
+const pendingLocationLabels = new Set<number>();
+
+async function handleAddLocation(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+    if (subscriber.locations.length >= MAX_LOCATIONS) {
+        return ctx.reply(`ℹ️ Можна зберегти не більше ${MAX_LOCATIONS} локацій.`);
+    }
+
+    addressWizards.delete(chatId);
+    pendingLocationLabels.add(chatId);
+    await ctx.reply('✏️ Введіть назву локації (наприклад, Офіс або Батьки):');
+}
+
+/**
+ * Handle label typed for a new location
+ */
+async function handleLocationLabelText(ctx: Context, text: string) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        pendingLocationLabels.delete(chatId);
+        return;
+    }
+
+    const label = text.trim();
+    if (label.length === 0 || label.length > MAX_LOCATION_LABEL_LENGTH) {
+        return ctx.reply(`ℹ️ Назва має містити від 1 до ${MAX_LOCATION_LABEL_LENGTH} символів.`);
+    }
+    if (subscriber.locations.some(l => l.label === label)) {
+        return ctx.reply('ℹ️ Локація з такою назвою вже існує. Введіть іншу назву:');
+    }
+
+    pendingLocationLabels.delete(chatId);
+    const locations = [...subscriber.locations, createLocation(label)];
+    subscribers.set(chatId, { ...subscriber, locations });
+    saveSubscribers(subscribers);
+
+    await ctx.reply(`✅ Локацію «${label}» додано.`);
+    await handleLocation(ctx, locations.length - 1);
+}
+
+async function handleDeleteLocation(ctx: Context, index: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    const location = subscriber?.locations[index];
+    if (!subscriber || !location || subscriber.locations.length < 2) return;
+
+    addressWizards.delete(chatId);
+    subscribers.set(chatId, { ...subscriber, locations: subscriber.locations.filter((_, i) => i !== index) });
+    saveSubscribers(subscribers);
+
+    await ctx.reply(`🗑 Локацію «${location.label}» видалено.`);
+}
+
+// --- Reminders ---
+
+async function handleRemind(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Щоб отримувати нагадування, підпишіться на розсилку.');
+    }
+
+    const current = subscriber.reminderMinutes === null
+        ? 'вимкнено'
+        : `за ${subscriber.reminderMinutes} хв до вимкнення`;
+
+    await ctx.reply(
+        `⏰ *Нагадування:* ${current}\n\n` +
+        'Бот попередить перед вимкненням і повідомить, коли світло має повернутись.\n' +
+        'За скільки хвилин попереджати?',
+        { parse_mode: 'Markdown', ...getReminderPicker(subscriber) }
+    );
+}
+
+async function handleSetReminder(ctx: Context, minutes: number | null) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    // Tapping the selected option changes nothing, editing the message would fail
+    if (!subscriber || subscriber.reminderMinutes === minutes) return;
+
+    const updated = { ...subscriber, reminderMinutes: minutes };
+    subscribers.set(chatId, updated);
+    saveSubscribers(subscribers);
+
+    await ctx.editMessageReplyMarkup(getReminderPicker(updated).reply_markup);
+    await ctx.reply(minutes === null
+        ? '🔕 Нагадування вимкнено'
+        : `⏰ Нагадування за ${minutes} хв до вимкнення увімкнено`
+    );
+}
+
+/**
+ * Send due outage / power return reminders
+ * Each reminder is identified by chat, group, type and event time, so it is sent once
+ * even after restarts or re-publication of the same schedule
+ */
+async function checkReminders() {
+    try {
+        const recipients = [...subscribers.values()].filter(s => s.reminderMinutes !== null);
+        if (recipients.length === 0) return;
+
+        const schedule = await getCachedSchedule();
+        const groupTexts = new Map<string, { today: string | null; tomorrow: string | null }>();
+
+        for (const subscriber of recipients) {
+            const byGroup = new Map<string, Location[]>();
+            for (const l of subscriber.locations) {
+                const group = getLocationGroup(l);
+                byGroup.set(group, [...(byGroup.get(group) ?? []), l]);
+            }
+
+            for (const [group, locations] of byGroup) {
+                if (!groupTexts.has(group)) {
+                    groupTexts.set(group, {
+                        today: extractGroupText(schedule.today, group),
+                        tomorrow: extractGroupText(schedule.tomorrow, group),
+                    });
+                }
+                const { today, tomorrow } = groupTexts.get(group)!;
+                if (!today) continue;
+
+                const events = getDueReminders(today, tomorrow, subscriber.reminderMinutes!, REMINDER_GRACE_MINUTES);
+                for (const event of events) {
+                    const eventTime = event.type === 'off' ? event.range.start : event.range.end;
+                    const key = `${subscriber.chatId}|${group}|${event.type}|${eventTime.toISOString()}`;
+                    if (isReminderSent(key)) continue;
+                    markReminderSent(key, eventTime.toISOString(), REMINDER_KEEP_MS);
+
+                    const header = formatLocationsHeader(subscriber, locations);
+                    const message = event.type === 'off'
+                        ? `${header}🔴 *Вимкнення через ${formatDuration(event.minutesLeft)}*\n` +
+                          `⏱️ ${event.range.start.format('HH:mm')} до ${event.range.end.format('HH:mm')}`
+                        : `${header}🟢 *Світло має повернутись*\n` +
+                          `⏱️ За графіком о ${event.range.end.format('HH:mm')}`;
+
+                    console.log(`Sending ${event.type} reminder to ${subscriber.chatId} for group ${group}`);
+                    await deliverToSubscriber(subscriber, message, 'reminder');
+                }
+            }
+        }
+    } catch (err) {
+        console.error('Error checking reminders:', err);
+    }
+}
+
+// --- Daily digest ---
+
+/**
+ * Build digest of a single group: remaining outages today and tomorrow's outlook
+ */
+function buildGroupDigest(group: string, schedule: ScheduleData): string {
+    const todayGroupText = extractGroupText(schedule.today, group);
+    const tomorrowGroupText = extractGroupText(schedule.tomorrow, group);
+
+    if (!todayGroupText) {
+        return '❌ Дані для групи не знайдено';
+    }
+
+    const remaining = getRemainingRanges(todayGroupText);
+    const totalHours = calculateTotalHours(parseOutageTimes(todayGroupText));
+    const status = getElectricityStatus(todayGroupText, tomorrowGroupText);
+
+    let content = remaining.length > 0
+        ? '🔴 Залишилось сьогодні:\n' + remaining.map(r => `⏱️ ${formatRange(r)}`).join('\n')
+        : '✅ Більше вимкнень сьогодні немає';
+    content += `\n\n⏱️ За день: ${formatHours(totalHours)}`;
+
+    if (!tomorrowGroupText) {
+        content += '\n\n📅 Графік на завтра ще не опубліковано';
+    } else if (status.tomorrowFirstOutage) {
+        content += `\n\n📅 Завтра перше вимкнення о ${status.tomorrowFirstOutage}`;
+    } else {
+        content += '\n\n📅 Завтра: ✅ Електроенергія є весь день';
+    }
+
+    return content;
+}
+
+/**
+ * Build daily digest message, one block per location
+ */
+async function buildDigestMessage(locations: Location[]): Promise<string> {
+    const schedule = await getCachedSchedule();
+    const title = `🗓 *Зведення на ${dayjs().tz(TZ).format('DD.MM')}*`;
+
+    if (locations.length === 1) {
+        const group = getLocationGroup(locations[0]);
+        return `${title} ${formatGroupEmoji(group)}\n\n${buildGroupDigest(group, schedule)}`;
+    }
+
+    const blocks = locations.map(l => {
+        const group = getLocationGroup(l);
+        return `📍 *${escapeMarkdown(l.label)}* ${formatGroupEmoji(group)}\n${buildGroupDigest(group, schedule)}`;
+    });
+    return `${title}\n\n${blocks.join('\n\n➖➖➖\n\n')}`;
+}
+
+async function handleDigest(ctx: Context, payload: string = '') {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Щоб отримувати щоденне зведення, підпишіться на розсилку.');
+    }
+
+    // Custom time: /digest 07:30
+    if (payload.trim()) {
+        const time = parseTimeOfDay(payload);
+        if (!time) {
+            return ctx.reply('ℹ️ Вкажіть час у форматі /digest 07:30');
+        }
+        return setDigestTime(ctx, subscriber, time);
+    }
+
+    const current = subscriber.digestTime === null ? 'вимкнено' : `щодня о ${subscriber.digestTime}`;
+
+    await ctx.reply(
+        `🗓 *Щоденне зведення:* ${current}\n\n` +
+        'Залишок вимкнень на сьогодні, кількість годин і перше вимкнення завтра.\n' +
+        'Оберіть час (за київським часом) або вкажіть свій: /digest 07:30',
+        { parse_mode: 'Markdown', ...getDigestPicker(subscriber) }
+    );
+}
+
+async function setDigestTime(ctx: Context, subscriber: Subscriber, digestTime: string | null) {
+    const updated = { ...subscriber, digestTime };
+    subscribers.set(subscriber.chatId, updated);
+    saveSubscribers(subscribers);
+
+    await ctx.reply(
+        digestTime === null ? '🔕 Щоденне зведення вимкнено' : `🗓 Щоденне зведення о ${digestTime} увімкнено`,
+        getDigestPicker(updated)
+    );
+}
+
+/**
+ * Send daily digests whose time has come
+ * Each digest is identified by chat and scheduled time, so it is sent once even after restarts
+ */
+async function checkDigests() {
+    for (const subscriber of [...subscribers.values()]) {
+        if (subscriber.digestTime === null) continue;
+
+        const due = getDailyDueTime(subscriber.digestTime, DIGEST_GRACE_MINUTES);
+        if (!due) continue;
+
+        const key = `${subscriber.chatId}|digest|${due.toISOString()}`;
+        if (isReminderSent(key)) continue;
+
+        try {
+            markReminderSent(key, due.toISOString(), REMINDER_KEEP_MS);
+            console.log(`Sending digest to ${subscriber.chatId}`);
+            await deliverToSubscriber(subscriber, await buildDigestMessage(subscriber.locations));
+        } catch (err) {
+            console.error(`Error sending digest to ${subscriber.chatId}:`, err);
+        }
+    }
+}
+
+// --- Schedule history ---
+
+async function handleHistory(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const groups = [...new Set(getChatLocations(chatId).map(getLocationGroup))];
+    await ctx.reply(
+        '📜 *Історія графіку*\n\nОберіть день, позначений •, щоб побачити, як змінювався графік:',
+        { parse_mode: 'Markdown', ...getHistoryCalendar(groups, dayjs().tz(TZ)) }
+    );
+}
+
+async function handleHistoryMonth(ctx: Context, month: string) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const groups = [...new Set(getChatLocations(chatId).map(getLocationGroup))];
+    await ctx.editMessageReplyMarkup(getHistoryCalendar(groups, dayjs.tz(`${month}-01`, TZ)).reply_markup);
+}
+
+/**
+ * Show every archived version of a day's schedule, later versions as a diff to the previous one
+ */
+async function handleHistoryDay(ctx: Context, date: string) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    // One block per group, labelled with locations using it
+    const byGroup = new Map<string, Location[]>();
+    for (const l of getChatLocations(chatId)) {
+        const group = getLocationGroup(l);
+        byGroup.set(group, [...(byGroup.get(group) ?? []), l]);
+    }
+
+    const blocks = [...byGroup].map(([group, locations]) => {
+        const header = byGroup.size > 1
+            ? `📍 *${locations.map(l => escapeMarkdown(l.label)).join(', ')}* ${formatGroupEmoji(group)}\n`
+            : `${formatGroupEmoji(group)}\n`;
+
+        const versions = loadScheduleVersions(group, date);
+        if (versions.length === 0) {
+            return `${header}ℹ️ Немає збережених даних`;
+        }
+
+        return header + versions.map((v, i) => {
+            const seen = dayjs(v.seenAt).tz(TZ).format('DD.MM HH:mm');
+            const source = v.infoTimestamp ? `\n📅 ${v.infoTimestamp.replace('Інформація ', '')}` : '';
+            const body = i === 0 ? buildOutageList(v) : formatScheduleDiff(versions[i - 1], v);
+            return `🕓 *Версія ${i + 1}* — отримано ${seen}${source}\n${body}`;
+        }).join('\n\n');
+    });
+
+    await ctx.reply(
+        `📜 *Графік на ${dayjs(date).format('DD.MM.YYYY')}*\n\n${blocks.join('\n\n➖➖➖\n\n')}`,
+        { parse_mode: 'Markdown' }
+    );
+}
+
+// --- Statistics ---
+
+/**
+ * Build outage statistics of a group for the last periodDays days, compared with the period before
+ */
+function buildGroupStats(group: string, periodDays: number): string {
+    const today = dayjs().tz(TZ);
+    const from = today.subtract(periodDays - 1, 'day');
+    const prevFrom = from.subtract(periodDays, 'day');
+
+    const days = loadDailySchedules(group, from.format('YYYY-MM-DD'), today.format('YYYY-MM-DD'));
+    const prevDays = loadDailySchedules(group, prevFrom.format('YYYY-MM-DD'), from.subtract(1, 'day').format('YYYY-MM-DD'));
+
+    if (days.length === 0) {
+        return 'ℹ️ Ще немає збережених даних за цей період';
+    }
+
+    const stats = calculateOutageStats(days);
+    const prevStats = calculateOutageStats(prevDays);
+    const pad = (h: number) => String(h).padStart(2, '0');
+
+    const lines = days.map(d =>
+        `${dayjs(d.date).format('DD.MM')} — ${formatHours(calculateTotalHours(getOutageTimes(d)))}`
+    );
+
+    lines.push('', `⏱️ Всього: ${formatHours(stats.totalHours)}`);
+    lines.push(`📊 В середньому: ${formatHours(stats.averageHours)} на день`);
+
+    if (stats.longest) {
+        const hours = stats.longest.end.diff(stats.longest.start, 'minute') / 60;
+        lines.push(`🔝 Найдовше: ${formatHours(hours)} (${stats.longest.start.format('DD.MM')} ${formatRange(stats.longest)})`);
+    }
+    if (stats.frequentHours.length > 0) {
+        lines.push(`🕐 Найчастіше без світла: ${stats.frequentHours.map(h => `${pad(h)}:00–${pad(h + 1)}:00`).join(', ')}`);
+    }
+
+    lines.push(prevStats.days > 0
+        ? `↕️ Попередні ${periodDays} днів: ${formatHours(prevStats.averageHours)} на день ` +
+          `(${formatHoursDelta(Math.round((stats.averageHours - prevStats.averageHours) * 10) / 10)})`
+        : `↕️ За попередні ${periodDays} днів даних немає`
+    );
+
+    return lines.join('\n');
+}
+
+/**
+ * Build statistics message, one block per group of chat's locations
+ */
+function buildStatsMessage(chatId: number, periodDays: number): string {
+    const byGroup = new Map<string, Location[]>();
+    for (const l of getChatLocations(chatId)) {
+        const group = getLocationGroup(l);
+        byGroup.set(group, [...(byGroup.get(group) ?? []), l]);
+    }
+
+    const blocks = [...byGroup].map(([group, locations]) => {
+        const header = byGroup.size > 1
+            ? `📍 *${locations.map(l => escapeMarkdown(l.label)).join(', ')}* ${formatGroupEmoji(group)}`
+            : formatGroupEmoji(group);
+        return `${header}\n${buildGroupStats(group, periodDays)}`;
+    });
+
+    return `📈 *Статистика відключень за ${periodDays} днів*\n\n${blocks.join('\n\n➖➖➖\n\n')}`;
+}
+
+async function handleStats(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const periodDays = STATS_PERIODS[0];
+    await ctx.reply(buildStatsMessage(chatId, periodDays), { parse_mode: 'Markdown', ...getStatsPeriodPicker(periodDays) });
+}
+
+async function handleStatsPeriod(ctx: Context, periodDays: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    try {
+        await ctx.editMessageText(buildStatsMessage(chatId, periodDays), { parse_mode: 'Markdown', ...getStatsPeriodPicker(periodDays) });
+    } catch (err: any) {
+        // Tapping the period already shown leaves the message as is
+        if (!/message is not modified/.test(err.response?.description ?? '')) throw err;
+    }
+}
+
+// --- Quiet hours ---
+
+function formatQuietHours(quiet: QuietHours | null): string {
+    if (!quiet) return 'вимкнено';
+    const mode = quiet.mode === 'silent' ? 'без звуку' : 'зведення після завершення';
+    const urgent = quiet.allowUrgent ? ', термінові зміни зі звуком' : '';
+    return `${quiet.start}–${quiet.end} (${mode}${urgent})`;
+}
+
+async function handleQuiet(ctx: Context, payload: string = '') {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Щоб налаштувати тихі години, підпишіться на розсилку.');
+    }
+
+    // Custom window: /quiet 23:30-06:30
+    if (payload.trim()) {
+        const window = parseTimeWindow(payload);
+        if (!window) {
+            return ctx.reply('ℹ️ Вкажіть час у форматі /quiet 23:00-07:00');
+        }
+        return updateQuietHours(ctx, subscriber, { mode: 'silent', allowUrgent: false, ...subscriber.quietHours, ...window });
+    }
+
+    await ctx.reply(
+        `🌙 *Тихі години:* ${formatQuietHours(subscriber.quietHours)}\n\n` +
+        'У цей час (за київським часом) повідомлення надходять без звуку або відкладаються до ранку.\n' +
+        'Оберіть проміжок або вкажіть свій: /quiet 23:30-06:30',
+        { parse_mode: 'Markdown', ...getQuietHoursMenu(subscriber) }
+    );
+}
+
+async function updateQuietHours(ctx: Context, subscriber: Subscriber, quietHours: QuietHours | null) {
+    const updated = { ...subscriber, quietHours };
+    subscribers.set(subscriber.chatId, updated);
+    saveSubscribers(subscribers);
+
+    await ctx.reply(`🌙 Тихі години: ${formatQuietHours(quietHours)}`, getQuietHoursMenu(updated));
+}
+
+async function handleQuietAction(ctx: Context, action: string) {
+    const subscriber = subscribers.get(ctx.chat?.id ?? 0);
+    if (!subscriber) return;
+
+    const quiet = subscriber.quietHours;
+    const presetMatch = action.match(/^preset:(\d+)$/);
+
+    if (presetMatch && QUIET_PRESETS[Number(presetMatch[1])]) {
+        const preset = QUIET_PRESETS[Number(presetMatch[1])];
+        await updateQuietHours(ctx, subscriber, { mode: 'silent', allowUrgent: false, ...quiet, ...preset });
+    } else if (action === 'mode' && quiet) {
+        await updateQuietHours(ctx, subscriber, { ...quiet, mode: quiet.mode === 'silent' ? 'hold' : 'silent' });
+    } else if (action === 'urgent' && quiet) {
+        await updateQuietHours(ctx, subscriber, { ...quiet, allowUrgent: !quiet.allowUrgent });
+    } else if (action === 'off') {
+        await updateQuietHours(ctx, subscriber, null);
+    }
+}
+
+/**
+ * Send one summary with the current schedule to subscribers whose quiet hours ended
+ * Paused subscribers get the pause catch-up instead
+ */
+async function flushHeldUpdates() {
+    const ready = [...subscribers.values()].filter(s =>
+        s.heldUpdates > 0 && !s.inactiveSince && !isPaused(s) && (!s.quietHours || !isWithinTimeWindow(s.quietHours))
+    );
+
+    if (ready.length === 0) return;
+
+    let scheduleData: ScheduleData;
+    try {
+        scheduleData = await getCachedSchedule();
+    } catch (err) {
+        console.error('Error fetching schedule for held updates:', err);
+        return;
+    }
+    for (const subscriber of ready) {
+        try {
+            subscribers.set(subscriber.chatId, { ...subscriber, heldUpdates: 0 });
+            saveSubscribers(subscribers);
+
+            const schedule = await buildLocationsScheduleMessage(subscriber.locations, scheduleData);
+            await sendToSubscriber(
+                subscriber.chatId,
+                `🌅 *Тихі години завершились*\n` +
+                `Відкладених оновлень: ${subscriber.heldUpdates}\n\n` +
+                `📋 Актуальний графік:\n${schedule}`
+            );
+        } catch (err) {
+            console.error(`Error sending held updates to ${subscriber.chatId}:`, err);
+        }
+    }
+}
+
+// --- Event types ---
+
+async function handleEvents(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+
+    await ctx.reply(
+        '🔔 *Типи сповіщень*\n\nОберіть, про які зміни графіку повідомляти:',
+        { parse_mode: 'Markdown', ...getEventsMenu(subscriber) }
+    );
+}
+
+async function handleToggleEvent(ctx: Context, event: ScheduleEvent) {
+    const subscriber = subscribers.get(ctx.chat?.id ?? 0);
+    if (!subscriber) return;
+
+    const events = subscriber.events.includes(event)
+        ? subscriber.events.filter(e => e !== event)
+        : [...subscriber.events, event];
+    const updated = { ...subscriber, events };
+    subscribers.set(subscriber.chatId, updated);
+    saveSubscribers(subscribers);
+
+    await ctx.editMessageReplyMarkup(getEventsMenu(updated).reply_markup);
+}
+
+// --- Pause ---
+
+function formatPausedUntil(pausedUntil: string): string {
+    return dayjs(pausedUntil).tz(TZ).format('DD.MM HH:mm');
+}
+
+async function handlePause(ctx: Context, payload: string = '') {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+
+    // Duration given: /pause 8h, /pause until tomorrow
+    if (payload.trim()) {
+        return setPause(ctx, subscriber, payload);
+    }
+
+    const status = isPaused(subscriber)
+        ? `⏸ Сповіщення призупинено до *${formatPausedUntil(subscriber.pausedUntil!)}*`
+        : '▶️ Сповіщення активні';
+
+    await ctx.reply(
+        `${status}\n\n` +
+        'На скільки призупинити сповіщення? Налаштування збережуться.\n' +
+        'Також можна вказати свій час: /pause 5h, /pause 2d, /pause until tomorrow',
+        { parse_mode: 'Markdown', ...getPauseMenu(subscriber) }
+    );
+}
+
+async function setPause(ctx: Context, subscriber: Subscriber, duration: string) {
+    const until = parsePauseUntil(duration);
+    if (!until) {
+        return ctx.reply('ℹ️ Не вдалося розпізнати час. Приклади: /pause 8h, /pause 2d, /pause until tomorrow');
+    }
+
+    const pausedUntil = until.toISOString();
+    subscribers.set(subscriber.chatId, { ...subscriber, pausedUntil });
+    saveSubscribers(subscribers);
+
+    await ctx.reply(
+        `⏸ Сповіщення призупинено до *${formatPausedUntil(pausedUntil)}*.\n` +
+        'Після паузи надішлю актуальний графік.',
+        { parse_mode: 'Markdown', ...getPauseMenu(subscribers.get(subscriber.chatId)!) }
+    );
+}
+
+/**
+ * Build catch-up message sent when a pause ends
+ */
+async function buildCatchUpMessage(subscriber: Subscriber, scheduleData?: ScheduleData): Promise<string> {
+    const schedule = await buildLocationsScheduleMessage(subscriber.locations, scheduleData);
+    return `▶️ *Сповіщення відновлено*\n\n📋 Актуальний графік:\n${schedule}`;
+}
+
+async function handleResume(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber?.pausedUntil) {
+        return ctx.reply('ℹ️ Сповіщення не призупинені.');
+    }
+
+    // The catch-up message covers updates held during quiet hours too
+    const updated = { ...subscriber, pausedUntil: null, heldUpdates: 0 };
+    subscribers.set(chatId, updated);
+    saveSubscribers(subscribers);
+
+    await ctx.reply(await buildCatchUpMessage(updated), { parse_mode: 'Markdown' });
+}
+
+/**
+ * Resume subscribers whose pause expired and send them the current schedule
+ */
+async function checkPauses() {
+    const expired = [...subscribers.values()].filter(s => s.pausedUntil && !isPaused(s));
+    if (expired.length === 0) return;
+
+    let scheduleData: ScheduleData;
+    try {
+        scheduleData = await getCachedSchedule();
+    } catch (err) {
+        console.error('Error fetching schedule for resumed subscribers:', err);
+        return;
+    }
+    for (const subscriber of expired) {
+        try {
+            const updated = { ...subscriber, pausedUntil: null, heldUpdates: 0 };
+            subscribers.set(subscriber.chatId, updated);
+            saveSubscribers(subscribers);
+
+            await deliverToSubscriber(updated, await buildCatchUpMessage(updated, scheduleData));
+        } catch (err) {
+            console.error(`Error resuming ${subscriber.chatId}:`, err);
+        }
+    }
+}
+
+// --- Sharing through /start deep links ---
+
+/**
+ * Check whether two locations point to the same place
+ */
+function isSameLocation(a: Location, b: Location): boolean {
+    if (a.address || b.address) {
+        return !!a.address && !!b.address &&
+            a.address.cityId === b.address.cityId &&
+            a.address.streetId === b.address.streetId &&
+            a.address.building === b.address.building;
+    }
+    return a.group === b.group;
+}
+
+async function handleShare(ctx: Context, index: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const location = subscribers.get(chatId)?.locations[index];
+    if (!location) return;
+
+    // Reuse the link if this location was already shared
+    let share = loadShares().find(s => s.inviterChatId === chatId && isSameLocation(s.location, location));
+    if (!share) {
+        share = {
+            token: crypto.randomBytes(6).toString('base64url'),
+            inviterChatId: chatId,
+            location: { ...location },
+            notifyInviter: true,
+            createdAt: new Date().toISOString(),
+        };
+        saveShare(share);
+    }
+
+    const botUrl = `https://t.me/${ctx.botInfo.username}`;
+    const groupPayload = formatGroupPayload(getLocationGroup(location));
+    await ctx.reply(
+        `👨‍👩‍👧 Надішліть це посилання рідним — вони підпишуться на локацію «${location.label}» в один дотик:\n\n` +
+        `${botUrl}?start=share_${share.token}\n\n` +
+        `📌 Загальне посилання на групу (наприклад, для дошки оголошень):\n${botUrl}?start=${groupPayload}`,
+        getShareKeyboard(share)
+    );
+}
+
+async function handleShareNotifyToggle(ctx: Context, token: string) {
+    const share = loadShares().find(s => s.token === token);
+    if (!share || share.inviterChatId !== ctx.chat?.id) return;
+
+    const updated = { ...share, notifyInviter: !share.notifyInviter };
+    saveShare(updated);
+    await ctx.editMessageReplyMarkup(getShareKeyboard(updated).reply_markup);
+}
+
+/**
+ * Subscribe chat to a location opened through a deep link
+ */
+async function handleJoinLocation(ctx: Context, location: Location, share: Share | null) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const name = getUserFullName(ctx);
+    const subscriber = subscribers.get(chatId);
+
+    if (!subscriber) {
+        subscribers.set(chatId, createSubscriber(chatId, name, [{ ...location }]));
+    } else if (subscriber.locations.some(l => isSameLocation(l, location))) {
+        return ctx.reply(`ℹ️ Локація «${location.label}» вже є у вашому списку.`, getReplyKeyboard(chatId));
+    } else if (subscriber.locations.length >= MAX_LOCATIONS) {
+        return ctx.reply(`ℹ️ Можна зберегти не більше ${MAX_LOCATIONS} локацій.`, getReplyKeyboard(chatId));
+    } else {
+        const label = subscriber.locations.some(l => l.label === location.label)
+            ? `${location.label} ${subscriber.locations.length + 1}`
+            : location.label;
+        subscribers.set(chatId, { ...subscriber, name, locations: [...subscriber.locations, { ...location, label }] });
+    }
+    saveSubscribers(subscribers);
+
+    await ctx.reply(
+        `✅ Ви підписані на локацію «${location.label}» — група ${formatGroupEmoji(getLocationGroup(location))}`,
+        getReplyKeyboard(chatId)
+    );
+    await handleCheckCommand(ctx);
+
+    if (share?.notifyInviter && share.inviterChatId !== chatId) {
+        try {
+            await bot.telegram.sendMessage(
+                share.inviterChatId,
+                `👋 ${name} підписується на «${share.location.label}» за вашим посиланням`
+            );
+        } catch (err: any) {
+            console.error(`Failed to notify inviter ${share.inviterChatId}:`, err.message);
+        }
+    }
+}
+
+/**
+ * Handle /start payload: "group_1_2" or "share_<token>"
+ * Returns false if payload is empty or unknown
+ */
+async function handleStartPayload(ctx: Context, payload: string): Promise<boolean> {
+    const parsed = parseStartPayload(payload);
+    if (!parsed) return false;
+
+    if (parsed.type === 'group') {
+        await handleJoinLocation(ctx, { ...createLocation(`Група ${parsed.group}`), group: parsed.group }, null);
+        return true;
+    }
+
+    const share = loadShares().find(s => s.token === parsed.token);
+    if (!share) {
+        await ctx.reply('❌ Посилання недійсне або застаріле.');
+        return false;
+    }
+
+    await handleJoinLocation(ctx, share.location, share);
+    return true;
+}
+
+// --- Maintainers ---
+
+/**
+ * Sync maintainers from environment: seed their roles and remove the ones no longer listed
+ * Owners added with /admin are never downgraded to admins
+ */
+function seedAdmins(): void {
+    const seeded = new Map<number, AdminRole>([
+        ...ADMIN_CHAT_IDS.map(chatId => [chatId, 'admin'] as const),
+        ...OWNER_CHAT_IDS.map(chatId => [chatId, 'owner'] as const),
+    ]);
+
+    let changed = false;
+    for (const admin of admins.values()) {
+        if (admin.addedBy === null && !seeded.has(admin.chatId)) {
+            console.log(`Removing maintainer ${admin.chatId}: no longer listed in environment`);
+            admins.delete(admin.chatId);
+            changed = true;
+        }
+    }
+
+    for (const [chatId, role] of seeded) {
+        const current = admins.get(chatId);
+        if (current?.role === role || (current && current.addedBy !== null && current.role === 'owner' && role === 'admin')) continue;
+        admins.set(chatId, { chatId, role, addedBy: null, addedAt: new Date().toISOString() });
+        changed = true;
+    }
+
+    if (changed) {
+        saveAdmins(admins);
+    }
+    if (admins.size === 0) {
+        console.log('No maintainers configured, set OWNER_CHAT_IDS');
+    }
+}
+
+/**
+ * Check whether a chat's maintainer role allows the action
+ */
+function isAllowed(chatId: number | undefined, permission: AdminPermission): boolean {
+    return chatId !== undefined && hasAdminPermission(admins.get(chatId)?.role, permission);
+}
+
+function formatAdmin(chatId: number): string {
+    const admin = admins.get(chatId)!;
+    const name = subscribers.get(chatId)?.name;
+    return `\`${chatId}\`${name ? ` ${escapeMarkdown(name)}` : ''} — ${ADMIN_ROLE_TITLES[admin.role]}` +
+        (admin.addedBy === null ? ' 🔒' : '');
+}
+
+/**
+ * Manage maintainers: /admin list | add <chat id> [owner|admin|viewer] | remove <chat id>
+ * Maintainers seeded from environment (🔒) can be changed only there
+ */
+async function handleAdmin(ctx: Context, payload: string) {
+    const chatId = ctx.chat?.id;
+    if (!chatId || !isAllowed(chatId, 'configure')) {
+        return ctx.reply('⛔ Доступ заборонено');
+    }
+
+    const command = parseAdminCommand(payload);
+    if (!command) {
+        return ctx.reply(
+            '👮 Використання:\n' +
+            '`/admin list`\n' +
+            '`/admin add <chat id> [owner|admin|viewer]`\n' +
+            '`/admin remove <chat id>`',
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    if (command.action === 'list') {
+        const list = [...admins.keys()].map(id => `  • ${formatAdmin(id)}`).join('\n');
+        return ctx.reply(`👮 *Адміністратори (${admins.size}):*\n${list || '  (немає)'}\n\n🔒 — задано у змінних середовища`, { parse_mode: 'Markdown' });
+    }
+
+    const current = admins.get(command.chatId);
+    if (current?.addedBy === null) {
+        return ctx.reply(`🔒 \`${command.chatId}\` задано у змінних середовища, змінити можна лише там.`, { parse_mode: 'Markdown' });
+    }
+    if (command.chatId === chatId) {
+        return ctx.reply('⚠️ Не можна змінити власну роль.');
+    }
+
+    if (command.action === 'add') {
+        admins.set(command.chatId, { chatId: command.chatId, role: command.role, addedBy: chatId, addedAt: new Date().toISOString() });
+        saveAdmins(admins);
+        console.log(`Admin ${command.chatId} set to ${command.role} by ${chatId}`);
+        return ctx.reply(`✅ ${formatAdmin(command.chatId)}`, { parse_mode: 'Markdown' });
+    }
+
+    if (!current) {
+        return ctx.reply(`ℹ️ \`${command.chatId}\` не є адміністратором.`, { parse_mode: 'Markdown' });
+    }
+    admins.delete(command.chatId);
+    saveAdmins(admins);
+    console.log(`Admin ${command.chatId} removed by ${chatId}`);
+    await ctx.reply(`🗑 \`${command.chatId}\` більше не адміністратор.`, { parse_mode: 'Markdown' });
+}
+
+// --- Admin broadcast ---
+
+/**
+ * Send broadcast message to a chat with extra options (notification, buttons of the preview)
+ */
+type BroadcastSend = (chatId: number, extra: { disable_notification?: boolean; reply_markup?: InlineKeyboardMarkup }) => Promise<unknown>;
+
+const pendingBroadcasts = new PendingBroadcasts<BroadcastSend>();
+
+/**
+ * Active subscribers that didn't pause notifications
+ * A pause suppresses all broadcasts, admin announcements included
+ */
+function getBroadcastRecipients(): Subscriber[] {
+    return [...subscribers.values()].filter(s => !s.inactiveSince && !isPaused(s));
+}
+
+/**
+ * Show broadcast preview with recipient count and confirmation buttons
+ * The message is the command text (Markdown) or a copy of the replied-to message (photos included)
+ */
+async function handleBroadcast(ctx: Context, text: string, replyToMessageId?: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId || !isAllowed(chatId, 'broadcast')) {
+        return ctx.reply('⛔ Доступ заборонено');
+    }
+
+    text = text.trim();
+    if (!text && !replyToMessageId) {
+        return ctx.reply(
+            '📣 Використання: `/broadcast текст` або відповідь командою /broadcast на повідомлення (можна з фото).',
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    const send: BroadcastSend = replyToMessageId
+        ? (id, extra) => bot.telegram.copyMessage(id, chatId, replyToMessageId, extra)
+        : (id, extra) => bot.telegram.sendMessage(id, text, { parse_mode: 'Markdown', ...extra });
+    const token = pendingBroadcasts.add(chatId, send);
+
+    const recipients = getBroadcastRecipients().length;
+    const paused = [...subscribers.values()].filter(s => !s.inactiveSince && isPaused(s)).length;
+    await ctx.reply(formatBroadcastPreview(recipients, paused), { parse_mode: 'Markdown' });
+    try {
+        await send(chatId, { reply_markup: getBroadcastConfirmKeyboard(token).reply_markup });
+    } catch (err: any) {
+        pendingBroadcasts.delete(token);
+        await ctx.reply(`❌ Не вдалося показати повідомлення: ${err.message}`);
+    }
+}
+
+/**
+ * Send confirmed broadcast to all recipients and report delivered/failed counts, or cancel it
+ */
+async function handleBroadcastConfirm(ctx: Context, token: string, confirmed: boolean) {
+    const chatId = ctx.chat?.id;
+    if (!chatId || !isAllowed(chatId, 'broadcast')) {
+        return ctx.reply('⛔ Доступ заборонено');
+    }
+
+    const send = pendingBroadcasts.take(token, chatId);
+    if (!send) {
+        return ctx.reply('ℹ️ Ця розсилка вже надіслана, скасована або застаріла.');
+    }
+
+    await ctx.editMessageReplyMarkup(undefined);
+    if (!confirmed) {
+        return ctx.reply('❌ Розсилку скасовано.');
+    }
+
+    const recipients = getBroadcastRecipients();
+    await ctx.reply(`📤 Надсилаю ${recipients.length} підписникам...`);
+    // Don't hold the update until every message is sent
+    void runBroadcast(chatId, send, recipients);
+}
+
+/**
+ * Send broadcast to recipients and report the result to the admin
+ */
+async function runBroadcast(adminChatId: number, send: BroadcastSend, recipients: Subscriber[]) {
+    try {
+        // Subscribers in quiet hours get it without sound
+        const deliveries = recipients.map(s => sendToChat(s.chatId, id =>
+            send(id, { disable_notification: !!s.quietHours && isWithinTimeWindow(s.quietHours) })
+        ));
+        const summary = await summarizeBroadcast('Admin broadcast', deliveries);
+
+        await bot.telegram.sendMessage(adminChatId, formatBroadcastReport(summary), { parse_mode: 'Markdown' });
+    } catch (err) {
+        console.error('Error running admin broadcast:', err);
+    }
+}
 
-    const info = [
-        `📊 *Debug Info*`,
-        ``,
-        `👥 *Підписники (${subscribersList.length}):*`,
-        subscribersInfo,
-        ``,
-        `🏠 *Група:* \`${GROUP}\``,
-        `📄 *Last State:* ${lastState ? '✅ set' : '❌ null'}`,
-    ].join('\n');
+// --- Address wizard (city → street → building) ---
 
-    ctx.reply(info, { parse_mode: 'Markdown' });
+interface AddressWizard {
+    locationIndex: number;
+    step: 'city' | 'street' | 'building';
+    cities: PowerApiItem[];
+    city?: PowerApiItem;
+    streets: PowerApiItem[];
+    street?: PowerApiItem;
+    buildings: string[];
 }
 
-async function handleMyGroup(ctx: Context) {
+const addressWizards = new Map<number, AddressWizard>();
+
+async function handleAddress(ctx: Context, locationIndex: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (!subscriber) {
+        return ctx.reply('ℹ️ Щоб вказати адресу, підпишіться на розсилку.');
+    }
+    if (!subscriber.locations[locationIndex]) return;
+
+    pendingLocationLabels.delete(chatId);
+    addressWizards.set(chatId, { locationIndex, step: 'city', cities: [], streets: [], buildings: [] });
+    await ctx.reply(
+        '📍 Введіть назву населеного пункту (наприклад, Львів):',
+        Markup.inlineKeyboard([Markup.button.callback('❌ Скасувати', 'addr_cancel')])
+    );
+}
+
+/**
+ * /address command: start the wizard right away for a single location
+ */
+async function handleAddressCommand(ctx: Context) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const subscriber = subscribers.get(chatId);
+    if (subscriber && subscriber.locations.length > 1) {
+        return handleMyGroup(ctx);
+    }
+    await handleAddress(ctx, 0);
+}
+
+/**
+ * Handle text typed during the address wizard (city or street search)
+ */
+async function handleAddressText(ctx: Context, text: string) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const wizard = addressWizards.get(chatId);
+    if (!wizard) return;
+
+    const query = text.trim();
+    if (query.length < 2) {
+        return ctx.reply('ℹ️ Введіть щонайменше 2 символи.');
+    }
+
     try {
-        const newGroup = await fetchGroupFromApi();
-
-        if (newGroup) {
-            if (newGroup !== GROUP) {
-                const oldGroup = GROUP;
-                GROUP = newGroup;
-                saveGroup(newGroup);
-
-                await ctx.reply(
-                    `⚠️ *Групу оновлено!*\n\n` +
-                    `Було: ${formatGroupEmoji(oldGroup)}\n` +
-                    `Стало: ${formatGroupEmoji(newGroup)}`,
-                    { parse_mode: 'Markdown' }
-                );
-            } else {
-                await ctx.reply(
-                    `🏠 *Ваша група:* ${formatGroupEmoji(GROUP)}\n\n` +
-                    `✅ Група актуальна`,
-                    { parse_mode: 'Markdown' }
-                );
+        if (wizard.step === 'city') {
+            wizard.cities = await searchCities(query);
+            if (wizard.cities.length === 0) {
+                return ctx.reply('🤷 Населений пункт не знайдено, спробуйте ще раз:');
             }
-        } else {
-            await ctx.reply(
-                `🏠 *Ваша група:* ${formatGroupEmoji(GROUP)}\n\n` +
-                `⚠️ Не вдалося перевірити актуальність`,
-                { parse_mode: 'Markdown' }
-            );
+            await ctx.reply('🏙 Оберіть населений пункт:', getSearchResultsKeyboard(wizard.cities, 'addr_city'));
+        } else if (wizard.step === 'street' && wizard.city) {
+            wizard.streets = await searchStreets(wizard.city.id, query);
+            if (wizard.streets.length === 0) {
+                return ctx.reply('🤷 Вулицю не знайдено, спробуйте ще раз:');
+            }
+            await ctx.reply('🛣 Оберіть вулицю:', getSearchResultsKeyboard(wizard.streets, 'addr_street'));
+        }
+    } catch (err) {
+        console.error('Error in address search:', err);
+        await ctx.reply('❌ Помилка при пошуку адреси');
+    }
+}
+
+async function handleAddressCity(ctx: Context, cityId: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const wizard = addressWizards.get(chatId);
+    const city = wizard?.cities.find(c => c.id === cityId);
+    if (!wizard || !city) return;
+
+    wizard.step = 'street';
+    wizard.city = city;
+    await ctx.reply(`🏙 ${city.name}\n\n🛣 Введіть назву вулиці:`);
+}
+
+async function handleAddressStreet(ctx: Context, streetId: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const wizard = addressWizards.get(chatId);
+    const street = wizard?.streets.find(s => s.id === streetId);
+    if (!wizard?.city || !street) return;
+
+    try {
+        const buildings = await fetchBuildings(wizard.city.id, street.id);
+        if (buildings.length === 0) {
+            return ctx.reply('🤷 Будинків на цій вулиці не знайдено. Введіть іншу вулицю:');
         }
+
+        wizard.step = 'building';
+        wizard.street = street;
+        wizard.buildings = buildings;
+        await ctx.reply(`🛣 ${street.name}\n\n🏢 Оберіть будинок:`, getBuildingPicker(buildings, 0));
     } catch (err) {
-        console.error('Error in mygroup command:', err);
-        await ctx.reply(`🏠 *Ваша група:* ${formatGroupEmoji(GROUP)}`, { parse_mode: 'Markdown' });
+        console.error('Error fetching buildings:', err);
+        await ctx.reply('❌ Помилка при завантаженні будинків');
+    }
+}
+
+async function handleAddressBuilding(ctx: Context, index: number) {
+    const chatId = ctx.chat?.id;
+    if (!chatId) return;
+
+    const wizard = addressWizards.get(chatId);
+    const building = wizard?.buildings[index];
+    if (!wizard?.city || !wizard.street || !building) return;
+
+    const address: Address = {
+        cityId: wizard.city.id,
+        cityName: wizard.city.name,
+        streetId: wizard.street.id,
+        streetName: wizard.street.name,
+        building,
+    };
+
+    const group = await fetchGroupForAddress(address);
+    if (!group) {
+        return ctx.reply('❌ Не вдалося визначити групу для цієї адреси. Оберіть інший будинок.');
     }
+
+    const subscriber = subscribers.get(chatId);
+    addressWizards.delete(chatId);
+    if (!subscriber?.locations[wizard.locationIndex]) {
+        return ctx.reply('ℹ️ Ви не підписані на розсилку.');
+    }
+
+    const locations = subscriber.locations.map((l, i) => i === wizard.locationIndex ? { ...l, group, address } : l);
+    subscribers.set(chatId, { ...subscriber, locations });
+    saveSubscribers(subscribers);
+
+    await ctx.reply(
+        `✅ Адресу збережено: ${formatAddress(address)}\n` +
+        `🏠 Група: ${formatGroupEmoji(group)}\n\n` +
+        `Група оновлюватиметься автоматично.`
+    );
+    await handleCheckCommand(ctx);
+}
+
+/**
+ * Build list of a day's outages with total hours
+ */
+function buildOutageList(day: DaySchedule): string {
+    const times = getOutageTimes(day);
+    if (times.length === 0) {
+        return '✅ Електроенергія є весь день';
+    }
+    return times.map(t => `⏱️ ${t}`).join('\n') + `\n\n⏱️ ${formatHours(calculateTotalHours(times))}`;
+}
+
+/**
+ * Build notification block for a single schedule change
+ * Changed days show only the difference, newly published days show the full list
+ */
+function buildChangeBlock(change: ScheduleChange): string {
+    const day = change.day === 'today' ? 'сьогодні' : 'завтра';
+    const title = change.event === 'cleared'
+        ? `*${SCHEDULE_EVENT_TITLES.cleared} — ${day}*`
+        : `*${SCHEDULE_EVENT_TITLES[change.event]}*`;
+
+    const body = change.prev
+        ? formatScheduleDiff(change.prev, change.next)
+        : buildOutageList(change.next);
+
+    return `${title}\n${body}`;
 }
 
 /**
- * Check site and send notifications to subscribers if state changed
- * Compares only schedule content (without timestamp) to detect real changes
+ * Check site and send notifications about locations whose group schedule changed
+ * Compares parsed schedules (without timestamp) to detect real changes
  */
 async function checkAndSend() {
     try {
-        const { fullMessage, scheduleContent } = await buildScheduleMessage();
-
-        // Compare only schedule content (without timestamp)
-        if (scheduleContent !== lastState) {
-            console.log('Schedule changed detected!');
-            console.log('Previous state:', JSON.stringify(lastState));
-            console.log('New state:', JSON.stringify(scheduleContent));
-
-            lastState = scheduleContent;
-            saveLastState(scheduleContent);
-
-            // Send full message (with timestamp) to all subscribers
-            for (const [chatId] of subscribers) {
-                try {
-                    await bot.telegram.sendMessage(chatId, fullMessage, { parse_mode: 'Markdown' });
-                } catch (err: any) {
-                    // Handle blocked users or deleted chats
-                    if (err.response?.error_code === 403 || err.response?.error_code === 400) {
-                        console.log(`Removing inactive subscriber: ${chatId}`);
-                        subscribers.delete(chatId);
-                        saveSubscribers(subscribers);
-                    } else {
-                        console.error(`Failed to send to ${chatId}:`, err.message);
-                    }
-                }
+        const schedule = await parseSite();
+        const timestamp = formatInfoTimestamp(extractInfoText(schedule.today));
+        const groupSchedules = parseAllGroupSchedules(schedule);
+        const groupsInUse = new Set([...subscribers.values()].flatMap(s => s.locations.map(getLocationGroup)));
+
+        // Detect changed groups and classify their changes
+        const groupChanges = new Map<string, ScheduleChange[]>();
+        const urgentGroups = new Set<string>();
+        for (const group of groupsInUse) {
+            const next = groupSchedules.get(group) ?? { group, today: null, tomorrow: null };
+            const prev = loadLastSchedule(group);
+
+            if (!next.today) {
+                console.log(`Дані для групи ${group} не знайдено:`, new Date());
+                continue;
+            }
+
+            // Compare parsed schedules, wording of messages doesn't matter
+            if (isSameGroupSchedule(prev, next)) {
+                console.log(`Змін немає для групи ${group}:`, new Date());
+                continue;
+            }
+
+            console.log(`Schedule changed detected for group ${group}!`);
+            saveLastSchedule(next);
+
+            const changes = getScheduleChanges(prev, next);
+            console.log(`Events for group ${group}:`, changes.map(c => c.event));
+            changes.forEach(c => scheduleChangeEvents.inc({ event: c.event }));
+            if (changes.length > 0) {
+                groupChanges.set(group, changes);
+            }
+
+            // Changes of the current day's schedule are urgent
+            if (isTodayScheduleChanged(prev, next)) {
+                urgentGroups.add(group);
+            }
+        }
+
+        lastCheckTimestamp.set(Date.now() / 1000);
+        if (groupChanges.size === 0) return;
+
+        // Send changes of each location's group, limited to events the subscriber wants
+        const deliveries = [];
+        for (const subscriber of [...subscribers.values()]) {
+            const blocks = [];
+            let isUrgent = false;
+            for (const [group, changes] of groupChanges) {
+                const locations = subscriber.locations.filter(l => getLocationGroup(l) === group);
+                const wanted = changes.filter(c => subscriber.events.includes(c.event));
+                if (locations.length === 0 || wanted.length === 0) continue;
+
+                blocks.push(
+                    formatLocationsHeader(subscriber, locations) +
+                    wanted.map(buildChangeBlock).join('\n\n') +
+                    `\n\n${formatGroupEmoji(group)}`
+                );
+                isUrgent = isUrgent || urgentGroups.has(group);
+            }
+
+            if (blocks.length > 0) {
+                deliveries.push(deliverToSubscriber(subscriber, timestamp + blocks.join('\n\n➖➖➖\n\n'), isUrgent ? 'urgent' : 'normal'));
             }
-            console.log('Розсилка відправлена:', new Date());
-        } else {
-            console.log('Змін немає:', new Date());
         }
+        await summarizeBroadcast(`Schedule change for groups ${[...groupChanges.keys()].join(', ')}`, deliveries);
+        console.log(`Розсилка для груп ${[...groupChanges.keys()].join(', ')} відправлена:`, new Date());
     } catch (err) {
         console.error('Помилка при перевірці сайту:', err);
     }
@@ -450,8 +2408,29 @@ async function checkAndSend() {
 
 // --- Bot Commands ---
 
-bot.start((ctx) => {
-    ctx.reply('👋 Бот для перевірки електроенергії.\nОберіть дію:', getReplyKeyboard(ctx.chat.id));
+// Log errors of handlers instead of letting them stop polling
+bot.catch((err, ctx) => {
+    console.error(`Error handling ${ctx.updateType} update:`, err);
+});
+
+// Any update from a chat proves it is reachable again: reactivate its subscriber
+bot.use((ctx, next) => {
+    const subscriber = ctx.chat && subscribers.get(ctx.chat.id);
+    if (subscriber?.inactiveSince) {
+        console.log(`Reactivating subscriber ${subscriber.chatId}`);
+        subscribers.set(subscriber.chatId, {
+            ...subscriber,
+            inactiveSince: null,
+            delivery: { ...subscriber.delivery, consecutiveFailures: 0, failingSince: null },
+        });
+        saveSubscribers(subscribers);
+    }
+    return next();
+});
+
+bot.start(async (ctx) => {
+    if (await handleStartPayload(ctx, ctx.payload)) return;
+    await ctx.reply('👋 Бот для перевірки електроенергії.\nОберіть дію:', getReplyKeyboard(ctx.chat.id));
 });
 
 bot.command('menu', (ctx) => {
@@ -475,6 +2454,21 @@ bot.command('mygroup', handleMyGroup);
 bot.command('subscribe', handleSubscribe);
 bot.command('unsubscribe', handleUnsubscribe);
 bot.command('debug', handleDebug);
+bot.command('admin', (ctx) => handleAdmin(ctx, ctx.payload));
+bot.command('broadcast', (ctx) => handleBroadcast(ctx, ctx.payload, ctx.message.reply_to_message?.message_id));
+bot.command('address', handleAddressCommand);
+bot.command('locations', handleMyGroup);
+bot.command('groups', handleGroups);
+bot.command('history', handleHistory);
+bot.command('stats', handleStats);
+bot.command('timeline', handleTimeline);
+bot.command('ics', handleIcs);
+bot.command('remind', handleRemind);
+bot.command('quiet', (ctx) => handleQuiet(ctx, ctx.payload));
+bot.command('pause', (ctx) => handlePause(ctx, ctx.payload));
+bot.command('resume', handleResume);
+bot.command('events', handleEvents);
+bot.command('digest', (ctx) => handleDigest(ctx, ctx.payload));
 
 // --- Button callback handlers ---
 
@@ -483,6 +2477,11 @@ bot.action('check', async (ctx) => {
     await handleCheckCommand(ctx);
 });
 
+bot.action('timeline', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleTimeline(ctx);
+});
+
 bot.action('status', async (ctx) => {
     await ctx.answerCbQuery();
     await handleStatusCommand(ctx);
@@ -503,11 +2502,201 @@ bot.action('mygroup', async (ctx) => {
     await handleMyGroup(ctx);
 });
 
+bot.action('groups', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleGroups(ctx);
+});
+
+bot.action('history', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleHistory(ctx);
+});
+
+bot.action(/^history:(\d{4}-\d{2})$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleHistoryMonth(ctx, ctx.match[1]);
+});
+
+bot.action(/^histday:(\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleHistoryDay(ctx, ctx.match[1]);
+});
+
+bot.action('stats', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleStats(ctx);
+});
+
+bot.action(/^stats:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const periodDays = Number(ctx.match[1]);
+    if (STATS_PERIODS.includes(periodDays)) {
+        await handleStatsPeriod(ctx, periodDays);
+    }
+});
+
+bot.action('noop', (ctx) => ctx.answerCbQuery());
+
+bot.action(/^loc:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleLocation(ctx, Number(ctx.match[1]));
+});
+
+bot.action('locadd', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleAddLocation(ctx);
+});
+
+bot.action(/^locdel:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleDeleteLocation(ctx, Number(ctx.match[1]));
+});
+
+bot.action(/^setgroup:(\d+):(.+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const index = Number(ctx.match[1]);
+    const value = ctx.match[2];
+    if (value === 'auto') {
+        await handleSetGroup(ctx, index, null);
+    } else if (isValidGroup(value)) {
+        await handleSetGroup(ctx, index, value);
+    }
+});
+
+bot.action('remind', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleRemind(ctx);
+});
+
+bot.action(/^remind:(\d+|off)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const value = ctx.match[1];
+    if (value === 'off') {
+        await handleSetReminder(ctx, null);
+    } else if (REMINDER_OPTIONS.includes(Number(value))) {
+        await handleSetReminder(ctx, Number(value));
+    }
+});
+
+bot.action('digest', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleDigest(ctx);
+});
+
+bot.action(/^digest:(\d{2}:\d{2}|off)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const subscriber = subscribers.get(ctx.chat?.id ?? 0);
+    if (!subscriber) return;
+    const value = ctx.match[1];
+    await setDigestTime(ctx, subscriber, value === 'off' ? null : parseTimeOfDay(value));
+});
+
+bot.action('quiet', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleQuiet(ctx);
+});
+
+bot.action(/^quiet:(.+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleQuietAction(ctx, ctx.match[1]);
+});
+
+bot.action('events', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleEvents(ctx);
+});
+
+bot.action(/^event:(.+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const event = ctx.match[1];
+    if (event in SCHEDULE_EVENT_TITLES) {
+        await handleToggleEvent(ctx, event as ScheduleEvent);
+    }
+});
+
+bot.action('pause', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handlePause(ctx);
+});
+
+bot.action('pause:resume', async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleResume(ctx);
+});
+
+bot.action(/^pause:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const option = PAUSE_OPTIONS[Number(ctx.match[1])];
+    const subscriber = subscribers.get(ctx.chat?.id ?? 0);
+    if (!option || !subscriber) return;
+    await setPause(ctx, subscriber, option.value);
+});
+
+bot.action(/^share:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleShare(ctx, Number(ctx.match[1]));
+});
+
+bot.action(/^sharenotify:(.+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleShareNotifyToggle(ctx, ctx.match[1]);
+});
+
+bot.action(/^address:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleAddress(ctx, Number(ctx.match[1]));
+});
+
+bot.action(/^addr_city:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleAddressCity(ctx, Number(ctx.match[1]));
+});
+
+bot.action(/^addr_street:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleAddressStreet(ctx, Number(ctx.match[1]));
+});
+
+bot.action(/^addr_page:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    const wizard = addressWizards.get(ctx.chat?.id ?? 0);
+    if (!wizard) return;
+    await ctx.editMessageReplyMarkup(getBuildingPicker(wizard.buildings, Number(ctx.match[1])).reply_markup);
+});
+
+bot.action(/^addr_building:(\d+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleAddressBuilding(ctx, Number(ctx.match[1]));
+});
+
+bot.action('addr_cancel', async (ctx) => {
+    await ctx.answerCbQuery();
+    addressWizards.delete(ctx.chat?.id ?? 0);
+    await ctx.reply('❌ Введення адреси скасовано.');
+});
+
+bot.action(/^broadcast:(send|cancel):(.+)$/, async (ctx) => {
+    await ctx.answerCbQuery();
+    await handleBroadcastConfirm(ctx, ctx.match[2], ctx.match[1] === 'send');
+});
+
 bot.action('debug', async (ctx) => {
     await ctx.answerCbQuery();
     handleDebug(ctx);
 });
 
+// --- Free text handler (must be registered after other handlers) ---
+
+bot.on(message('text'), async (ctx) => {
+    if (ctx.message.text.startsWith('/')) return;
+
+    if (pendingLocationLabels.has(ctx.chat.id)) {
+        await handleLocationLabelText(ctx, ctx.message.text);
+    } else {
+        await handleAddressText(ctx, ctx.message.text);
+    }
+});
+
 // --- Cron jobs ---
 
 // Check schedule every 10 minutes
@@ -516,28 +2705,164 @@ cron.schedule('*/10 * * * *', () => {
     void checkAndSend();
 });
 
+// Check reminders, digests, quiet hours and pauses every minute
+cron.schedule('* * * * *', () => {
+    void checkReminders();
+    void checkDigests();
+    void flushHeldUpdates();
+    void checkPauses();
+});
+
 // Check group every 30 minutes
 cron.schedule('*/30 * * * *', () => {
     console.log('Перевірка групи...');
     void checkAndUpdateGroup();
 });
 
+// --- HTTP endpoints ---
+
+addRoute('GET', '/calendar/:group.ics', async (_req, res, { group }) => {
+    if (!isValidGroup(group)) {
+        return sendJson(res, 404, { error: 'Unknown group' });
+    }
+    sendText(res, 200, await buildGroupCalendar(group), 'text/calendar; charset=utf-8');
+});
+
+/**
+ * Format range for JSON responses as ISO times with offset
+ */
+function toJsonRange(range: Range) {
+    return { start: range.start.format(), end: range.end.format() };
+}
+
+/**
+ * Wrap REST API handler with token check and group validation
+ */
+function apiRoute(handler: (group: string, ...args: Parameters<RouteHandler>) => ReturnType<RouteHandler>): RouteHandler {
+    return (req, res, params, url) => {
+        if (API_TOKEN && !hasValidToken(req, url, API_TOKEN)) {
+            return sendJson(res, 401, { error: 'Unauthorized' });
+        }
+        if (!isValidGroup(params.group)) {
+            return sendJson(res, 404, { error: 'Unknown group' });
+        }
+        return handler(params.group, req, res, params, url);
+    };
+}
+
+addRoute('GET', '/api/groups/:group/status', apiRoute(async (group, _req, res) => {
+    const schedule = await getCachedSchedule(API_CACHE_TTL_MS);
+    const todayGroupText = extractGroupText(schedule.today, group);
+    const tomorrowGroupText = extractGroupText(schedule.tomorrow, group);
+
+    if (!todayGroupText) {
+        return sendJson(res, 503, { error: 'Schedule is not available' });
+    }
+
+    sendJson(res, 200, {
+        group,
+        ...getElectricityStatus(todayGroupText, tomorrowGroupText),
+        nextRanges: getUpcomingRanges(todayGroupText, tomorrowGroupText).map(toJsonRange),
+    });
+}));
+
+addRoute('GET', '/api/groups/:group/schedule', apiRoute(async (group, _req, res, _params, url) => {
+    const day = url.searchParams.get('day') ?? 'today';
+    if (day !== 'today' && day !== 'tomorrow') {
+        return sendJson(res, 400, { error: 'day must be "today" or "tomorrow"' });
+    }
+
+    const schedule = parseGroupSchedule(await getCachedSchedule(API_CACHE_TTL_MS), group)[day];
+    if (!schedule) {
+        return sendJson(res, 404, { error: `Schedule for ${day} is not published` });
+    }
+
+    sendJson(res, 200, {
+        group,
+        day,
+        date: schedule.date,
+        outages: schedule.outages.map(toJsonRange),
+        powerAllDay: schedule.powerAllDay,
+        totalHours: calculateTotalHours(getOutageTimes(schedule)),
+        infoTimestamp: schedule.infoTimestamp,
+    });
+}));
+
+/**
+ * Send health check result with the time of the last successful fetch
+ */
+function sendHealth(res: Parameters<RouteHandler>[1], ok: boolean): void {
+    sendJson(res, ok ? 200 : 503, {
+        status: ok ? 'ok' : 'unhealthy',
+        lastSuccessfulFetch: lastSuccessfulFetchAt ? new Date(lastSuccessfulFetchAt).toISOString() : null,
+    });
+}
+
+addRoute('GET', '/metrics', (req, res, _params, url) => {
+    if (API_TOKEN && !hasValidToken(req, url, API_TOKEN)) {
+        return sendJson(res, 401, { error: 'Unauthorized' });
+    }
+    const inactive = [...subscribers.values()].filter(s => s.inactiveSince).length;
+    subscribersCount.set(subscribers.size - inactive, { status: 'active' });
+    subscribersCount.set(inactive, { status: 'inactive' });
+    sendText(res, 200, renderMetrics(), 'text/plain; version=0.0.4; charset=utf-8');
+});
+
+addRoute('GET', '/healthz', (_req, res) => sendHealth(res, isHealthy()));
+
+// Ready once the bot receives updates
+addRoute('GET', '/readyz', (_req, res) => sendHealth(res, botStarted && isHealthy()));
+
 // --- Graceful shutdown (important for Railway) ---
-process.once('SIGINT', () => bot.stop('SIGINT'));
-process.once('SIGTERM', () => bot.stop('SIGTERM'));
+async function shutdown(signal: string) {
+    console.log(`Shutting down (${signal})...`);
+    // Scheduled jobs would keep sending broadcasts while a new instance takes over
+    await Promise.all([...cron.getTasks().values()].map(task => task.stop()));
+    if (WEBHOOK) {
+        await deleteOwnWebhook(bot.telegram, WEBHOOK).catch(err => console.error('Error deleting webhook:', err));
+    } else if (botStarted) {
+        bot.stop(signal);
+    }
+    stopHttpServer();
+    process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
 
 // --- Bot startup ---
 async function startBot() {
     // Always fetch group from API on startup
     const fetchedGroup = await fetchGroupFromApi();
     if (fetchedGroup) {
-        GROUP = fetchedGroup;
-        saveGroup(GROUP);
+        defaultGroup = fetchedGroup;
+        saveGroup(defaultGroup);
+    }
+    console.log(`Using default group: ${defaultGroup}`);
+
+    // Webhook mode needs the HTTP server even without HTTP_PORT (Railway provides PORT)
+    const httpPort = HTTP_PORT ?? (WEBHOOK ? Number(process.env.PORT) || DEFAULT_WEBHOOK_PORT : null);
+    if (httpPort) {
+        await startHttpServer(httpPort);
     }
-    console.log(`Using group: ${GROUP}`);
 
-    await bot.launch();
-    console.log('🤖 Bot started');
+    if (WEBHOOK) {
+        addWebhookRoute(bot, WEBHOOK);
+        // Ready only once Telegram accepted the webhook, failing to set it fails the start
+        await setWebhook(bot.telegram, WEBHOOK);
+        botStarted = true;
+        console.log('🤖 Bot started (webhook)');
+        return;
+    }
+
+    // launch() resolves only when polling stops, the callback runs once the bot is connected
+    await bot.launch(() => {
+        botStarted = true;
+        console.log('🤖 Bot started');
+    });
 }
 
-startBot();
+startBot().catch(err => {
+    console.error('Error starting bot:', err);
+    process.exit(1);
+});
@@ -0,0 +1,222 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+    StorageBackend,
+    StorageData,
+    StoredGroupSchedule,
+    StoredScheduleVersion,
+    Subscriber,
+    Share,
+    Admin,
+} from './storage.js';
+import { SCHEMA_VERSION, getSchemaVersion, migrateData } from './migrations.js';
+
+/**
+ * Default empty data
+ */
+const DEFAULT_DATA: StorageData = {
+    schemaVersion: SCHEMA_VERSION,
+    subscribers: [],
+    shares: [],
+    sentReminders: {},
+    lastSchedules: {},
+    scheduleHistory: [],
+    group: null,
+    admins: [],
+};
+
+const DEFAULT_BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Storage in a single JSON file, kept in memory and rewritten on every change
+ * Writes go to a temporary file renamed over the data file, so a crash never leaves it half-written
+ */
+export class JsonStorage implements StorageBackend {
+    private cachedData: StorageData | null = null;
+    private lastBackupAt = 0;
+
+    /**
+     * Keeps backupCount backups, taking one on save at most once per backupIntervalMs
+     */
+    constructor(
+        private readonly file: string,
+        private readonly backupCount: number,
+        private readonly backupIntervalMs: number = DEFAULT_BACKUP_INTERVAL_MS
+    ) {}
+
+    /**
+     * Ensure data directory exists
+     */
+    private ensureDataDir(): void {
+        const dir = path.dirname(this.file);
+        console.log(`[Storage] DATA_DIR: ${dir}, DATA_FILE: ${this.file}`);
+        if (!fs.existsSync(dir)) {
+            console.log(`[Storage] Creating directory: ${dir}`);
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    }
+
+    /**
+     * Backups of the data file, oldest first
+     */
+    listBackups(): string[] {
+        const dir = path.dirname(this.file);
+        const prefix = `${path.basename(this.file)}.`;
+        return fs.readdirSync(dir)
+            .filter(name => name.startsWith(prefix) && name.endsWith('.bak'))
+            .sort()
+            .map(name => path.join(dir, name));
+    }
+
+    /**
+     * Copy the data file to a timestamped backup next to it, removing the oldest backups
+     */
+    private backupFile(): void {
+        if (!fs.existsSync(this.file)) return;
+
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        fs.copyFileSync(this.file, `${this.file}.${stamp}.bak`);
+        this.lastBackupAt = Date.now();
+
+        const backups = this.listBackups();
+        for (const old of backups.slice(0, Math.max(backups.length - this.backupCount, 0))) {
+            fs.rmSync(old, { force: true });
+        }
+    }
+
+    /**
+     * Load all data from the file, migrating it to the current schema
+     * A file that can't be read is never replaced with empty data: loading fails until it is fixed or restored
+     */
+    private loadData(): StorageData {
+        this.ensureDataDir();
+        if (!fs.existsSync(this.file)) {
+            return { ...DEFAULT_DATA };
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+        } catch (err: any) {
+            parsed = null;
+            console.error('Error loading data:', err.message);
+        }
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            const latest = this.listBackups().pop() ?? 'no backups';
+            throw new Error(`Storage file ${this.file} is corrupt, refusing to overwrite it. Fix it or restore a backup (latest: ${latest})`);
+        }
+
+        if (getSchemaVersion(parsed) === SCHEMA_VERSION) {
+            return { ...DEFAULT_DATA, ...parsed };
+        }
+
+        // Keep the file as it was before migrating
+        this.backupFile();
+        const data = { ...DEFAULT_DATA, ...migrateData(parsed) };
+        this.saveData(data);
+        return data;
+    }
+
+    /**
+     * Save all data to the file atomically, backing up the previous file at most once per interval
+     */
+    private saveData(data: StorageData): void {
+        const tmp = `${this.file}.tmp`;
+        try {
+            this.ensureDataDir();
+            if (Date.now() - this.lastBackupAt >= this.backupIntervalMs) {
+                this.backupFile();
+            }
+
+            const fd = fs.openSync(tmp, 'w');
+            try {
+                fs.writeFileSync(fd, JSON.stringify(data, null, 2), 'utf-8');
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+            fs.renameSync(tmp, this.file);
+            console.log(`[Storage] Saved data to ${this.file}: ${data.subscribers.length} subscribers`);
+        } catch (err) {
+            console.error('[Storage] Error saving data:', err);
+            fs.rmSync(tmp, { force: true });
+        }
+    }
+
+    /**
+     * All data, loaded from the file on first access
+     */
+    getData(): StorageData {
+        if (!this.cachedData) {
+            this.cachedData = this.loadData();
+            console.log(`Loaded data: ${this.cachedData.subscribers.length} subscribers, group: ${this.cachedData.group}`);
+        }
+        return this.cachedData;
+    }
+
+    private updateData(updates: Partial<StorageData>): void {
+        this.cachedData = { ...this.getData(), ...updates };
+        this.saveData(this.cachedData);
+    }
+
+    loadSubscribers(): Subscriber[] {
+        return this.getData().subscribers;
+    }
+
+    saveSubscribers(subscribers: Subscriber[]): void {
+        this.updateData({ subscribers });
+    }
+
+    loadShares(): Share[] {
+        return this.getData().shares;
+    }
+
+    saveShare(share: Share): void {
+        const shares = this.getData().shares.filter(s => s.token !== share.token);
+        this.updateData({ shares: [...shares, share] });
+    }
+
+    isReminderSent(key: string): boolean {
+        return key in this.getData().sentReminders;
+    }
+
+    markReminderSent(key: string, eventTime: string, cutoff: string): void {
+        const sentReminders = Object.fromEntries(
+            Object.entries(this.getData().sentReminders).filter(([, time]) => Date.parse(time) >= Date.parse(cutoff))
+        );
+        this.updateData({ sentReminders: { ...sentReminders, [key]: eventTime } });
+    }
+
+    loadLastSchedule(group: string): StoredGroupSchedule | null {
+        return this.getData().lastSchedules[group] ?? null;
+    }
+
+    saveLastSchedule(schedule: StoredGroupSchedule): void {
+        this.updateData({ lastSchedules: { ...this.getData().lastSchedules, [schedule.group]: schedule } });
+    }
+
+    loadScheduleHistory(group: string, fromDate: string = '', toDate: string = '9999-12-31'): StoredScheduleVersion[] {
+        return this.getData().scheduleHistory.filter(v => v.group === group && v.date >= fromDate && v.date <= toDate);
+    }
+
+    addScheduleVersions(versions: StoredScheduleVersion[], cutoffDate: string): void {
+        const history = this.getData().scheduleHistory.filter(v => v.date >= cutoffDate);
+        this.updateData({ scheduleHistory: [...history, ...versions] });
+    }
+
+    loadGroup(): string | null {
+        return this.getData().group;
+    }
+
+    saveGroup(group: string): void {
+        this.updateData({ group });
+    }
+
+    loadAdmins(): Admin[] {
+        return this.getData().admins;
+    }
+
+    saveAdmins(admins: Admin[]): void {
+        this.updateData({ admins });
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4)
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format labels as {a="1",b="2"}, empty string when there are none
+ */
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Series key independent of label order
+ */
+function labelsKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: string): string[] {
+    return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Value per label set, shared by counters and gauges
+ */
+abstract class SimpleMetric implements Metric {
+    protected values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, readonly help: string, private readonly type: string) {
+        registry.push(this);
+    }
+
+    protected add(labels: Labels, delta: number, reset: boolean = false): void {
+        const key = labelsKey(labels);
+        const current = this.values.get(key);
+        this.values.set(key, { labels, value: (reset || !current ? 0 : current.value) + delta });
+    }
+
+    get(labels: Labels = {}): number {
+        return this.values.get(labelsKey(labels))?.value ?? 0;
+    }
+
+    render(): string[] {
+        return [
+            ...header(this.name, this.help, this.type),
+            ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends SimpleMetric {
+    constructor(name: string, help: string) {
+        super(name, help, 'counter');
+    }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        this.add(labels, value);
+    }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends SimpleMetric {
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge');
+    }
+
+    set(value: number, labels: Labels = {}): void {
+        this.add(labels, value, true);
+    }
+}
+
+/**
+ * Distribution of observed values (e.g., durations in seconds) over cumulative buckets
+ */
+export class Histogram implements Metric {
+    private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {
+        registry.push(this);
+    }
+
+    observe(value: number, labels: Labels = {}): void {
+        const key = labelsKey(labels);
+        const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) series.counts[i]++;
+        });
+        series.sum += value;
+        series.count++;
+        this.series.set(key, series);
+    }
+
+    render(): string[] {
+        const lines = header(this.name, this.help, 'histogram');
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Render all registered metrics
+ */
+export function renderMetrics(): string {
+    return registry.map(metric => metric.render().join('\n')).join('\n\n') + '\n';
+}
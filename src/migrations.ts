@@ -0,0 +1,107 @@
+import { ScheduleEvent, SCHEDULE_EVENT_TITLES } from './types.js';
+import type { StorageData } from './storage.js';
+
+/**
+ * Step that brings stored data from the previous schema version to `version`
+ * Migrations work on raw data and must not change once released
+ */
+interface Migration {
+    version: number;
+    description: string;
+    migrate(data: any): any;
+}
+
+/**
+ * All migrations in order, data without schemaVersion is version 0
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Store subscribers as objects instead of chat ids',
+        migrate: data => ({
+            ...data,
+            subscribers: (data.subscribers ?? []).map((s: any) => typeof s === 'number' ? { chatId: s, name: 'Unknown' } : s),
+        }),
+    },
+    {
+        version: 2,
+        description: 'Move single group/address into the primary location',
+        migrate: data => ({
+            ...data,
+            subscribers: data.subscribers.map((s: any) => {
+                if (s.locations) return s;
+                const { group, address, ...rest } = s;
+                return { ...rest, locations: [{ label: 'Дім', group: group ?? null, address: address ?? null }] };
+            }),
+        }),
+    },
+    {
+        version: 3,
+        description: 'Reminders, quiet hours, pause and digest are off, all events on for existing subscribers',
+        migrate: data => ({
+            ...data,
+            subscribers: data.subscribers.map((s: any) => ({
+                ...s,
+                reminderMinutes: s.reminderMinutes ?? null,
+                quietHours: s.quietHours ?? null,
+                heldUpdates: s.heldUpdates ?? 0,
+                pausedUntil: s.pausedUntil ?? null,
+                events: s.events ?? (Object.keys(SCHEDULE_EVENT_TITLES) as ScheduleEvent[]),
+                digestTime: s.digestTime ?? null,
+            })),
+        }),
+    },
+    {
+        version: 4,
+        description: 'Drop rendered message states, the next check stores parsed schedules silently',
+        migrate: ({ lastState, lastStates, lastDayTexts, ...data }) => data,
+    },
+    {
+        version: 5,
+        description: 'Track delivery status, all existing subscribers are active',
+        migrate: data => ({
+            ...data,
+            subscribers: data.subscribers.map((s: any) => ({
+                ...s,
+                delivery: s.delivery ?? {
+                    lastSuccessAt: null,
+                    consecutiveFailures: 0,
+                    failingSince: null,
+                    lastErrorCode: null,
+                    lastErrorDescription: null,
+                },
+                inactiveSince: s.inactiveSince ?? null,
+            })),
+        }),
+    },
+    {
+        version: 6,
+        description: 'Keep bot maintainers in storage, seeded from environment on start',
+        migrate: data => ({ ...data, admins: data.admins ?? [] }),
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get schema version of raw data, refusing data written by a newer version of the bot
+ */
+export function getSchemaVersion(data: any): number {
+    const version = data.schemaVersion ?? 0;
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Storage schema version ${version} is newer than supported ${SCHEMA_VERSION}`);
+    }
+    return version;
+}
+
+/**
+ * Apply pending migrations to raw data
+ */
+export function migrateData(data: any): StorageData {
+    const from = getSchemaVersion(data);
+    for (const migration of MIGRATIONS.filter(m => m.version > from)) {
+        console.log(`[Storage] Migrating to schema version ${migration.version}: ${migration.description}`);
+        data = { ...migration.migrate(data), schemaVersion: migration.version };
+    }
+    return data;
+}
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { Address, PowerApiItem } from './types.js';
+import { parseGroupFromApi, sortBuildingNames } from './utils.js';
+
+// --- Configuration ---
+const POWER_API_BASE_URL = 'https://power-api.loe.lviv.ua/api';
+
+const POWER_API_HEADERS = {
+    'Accept': 'application/json, text/plain, */*',
+    'Origin': 'https://poweron.loe.lviv.ua',
+    'Referer': 'https://poweron.loe.lviv.ua/',
+    'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+};
+
+/**
+ * Fetch hydra collection members from the power API
+ */
+async function fetchMembers(resource: string, params: Record<string, string | number>): Promise<any[]> {
+    const { data } = await axios.get<any>(`${POWER_API_BASE_URL}/${resource}`, {
+        timeout: 10_000,
+        headers: POWER_API_HEADERS,
+        params: { pagination: false, ...params },
+    });
+
+    return data?.['hydra:member'] ?? [];
+}
+
+/**
+ * Search cities by name
+ */
+export async function searchCities(name: string): Promise<PowerApiItem[]> {
+    const cities = await fetchMembers('pw_cities', { name });
+    return cities.map((c: any) => ({ id: c.id, name: c.name }));
+}
+
+/**
+ * Search streets of a city by name
+ */
+export async function searchStreets(cityId: number, name: string): Promise<PowerApiItem[]> {
+    const streets = await fetchMembers('pw_streets', { 'city.id': cityId, name });
+    return streets.map((s: any) => ({ id: s.id, name: s.name }));
+}
+
+/**
+ * Fetch building names of a street, sorted naturally
+ */
+export async function fetchBuildings(cityId: number, streetId: number): Promise<string[]> {
+    const accounts = await fetchMembers('pw_accounts', { 'city.id': cityId, 'street.id': streetId });
+    return sortBuildingNames(accounts.map((a: any) => a.buildingName));
+}
+
+/**
+ * Fetch group for an address
+ * Returns group in format "X.Y" (e.g., "1.2") or null if failed
+ */
+export async function fetchGroupForAddress(address: Pick<Address, 'cityId' | 'streetId' | 'building'>): Promise<string | null> {
+    try {
+        const accounts = await fetchMembers('pw_accounts', {
+            'city.id': address.cityId,
+            'street.id': address.streetId,
+        });
+        const account = accounts.find((a: any) => a.buildingName === address.building);
+
+        if (!account?.chergGpv) {
+            console.error(`Building ${address.building} not found in API response`);
+            return null;
+        }
+
+        const group = parseGroupFromApi(account.chergGpv);
+        if (!group) {
+            console.error(`Invalid group format: ${account.chergGpv}`);
+            return null;
+        }
+
+        console.log(`Fetched group from API for building ${address.building}: ${group}`);
+        return group;
+    } catch (err) {
+        console.error('Error fetching group from API:', err);
+        return null;
+    }
+}
@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+    StorageBackend,
+    StorageData,
+    StoredGroupSchedule,
+    StoredScheduleVersion,
+    Subscriber,
+    Share,
+    Admin,
+} from './storage.js';
+import { SCHEMA_VERSION, getSchemaVersion, migrateData } from './migrations.js';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS subscribers (
+        chat_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS shares (
+        token TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sent_reminders (
+        key TEXT PRIMARY KEY,
+        event_time TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS last_schedules (
+        group_name TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS schedule_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        group_name TEXT NOT NULL,
+        date TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS schedule_history_group_date ON schedule_history (group_name, date);
+    CREATE TABLE IF NOT EXISTS admins (
+        chat_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+`;
+
+// Set once data.json was imported, so the migration runs only once
+const JSON_IMPORTED_KEY = 'json_imported_at';
+const SCHEMA_VERSION_KEY = 'schema_version';
+// Databases created before versioning hold data already normalized to this version
+const UNVERSIONED_SCHEMA_VERSION = 4;
+
+/**
+ * Storage in an embedded SQLite database, every change is a small transaction
+ * Records are kept as JSON documents keyed by their ids
+ */
+export class SqliteStorage implements StorageBackend {
+    private readonly db: Database.Database;
+
+    constructor(file: string) {
+        if (file !== ':memory:') {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+        }
+        this.db = new Database(file);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+        console.log(`[Storage] SQLite database: ${file}`);
+        this.migrate();
+    }
+
+    /**
+     * Bring stored data to the current schema, running the same migrations as the JSON storage
+     */
+    private migrate(): void {
+        const stored = this.getMeta(SCHEMA_VERSION_KEY);
+        const version = getSchemaVersion({ schemaVersion: stored === null ? UNVERSIONED_SCHEMA_VERSION : Number(stored) });
+
+        this.db.transaction(() => {
+            if (version < SCHEMA_VERSION) {
+                const data = migrateData({ ...this.exportData(), schemaVersion: version });
+                this.clearData();
+                this.writeData(data);
+            }
+            this.setMeta(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+        })();
+    }
+
+    private getMeta(key: string): string | null {
+        const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+        return row?.value ?? null;
+    }
+
+    private setMeta(key: string, value: string): void {
+        this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+    }
+
+    /**
+     * Check whether data.json was already imported
+     */
+    hasImportedJson(): boolean {
+        return this.getMeta(JSON_IMPORTED_KEY) !== null;
+    }
+
+    /**
+     * Read all data in the layout of the JSON storage
+     */
+    exportData(): StorageData {
+        const reminders = this.db.prepare('SELECT key, event_time FROM sent_reminders').all() as { key: string; event_time: string }[];
+        const schedules = this.db.prepare('SELECT data FROM last_schedules').all() as { data: string }[];
+        const history = this.db.prepare('SELECT data FROM schedule_history ORDER BY id').all() as { data: string }[];
+
+        return {
+            schemaVersion: SCHEMA_VERSION,
+            subscribers: this.loadSubscribers(),
+            shares: this.loadShares(),
+            sentReminders: Object.fromEntries(reminders.map(row => [row.key, row.event_time])),
+            lastSchedules: Object.fromEntries(schedules.map(row => {
+                const schedule: StoredGroupSchedule = JSON.parse(row.data);
+                return [schedule.group, schedule];
+            })),
+            scheduleHistory: history.map(row => JSON.parse(row.data)),
+            group: this.loadGroup(),
+            admins: this.loadAdmins(),
+        };
+    }
+
+    private clearData(): void {
+        for (const table of ['subscribers', 'shares', 'sent_reminders', 'last_schedules', 'schedule_history', 'admins']) {
+            this.db.exec(`DELETE FROM ${table}`);
+        }
+    }
+
+    private writeData(data: StorageData): void {
+        this.saveSubscribers(data.subscribers);
+        data.shares.forEach(share => this.saveShare(share));
+        const insertReminder = this.db.prepare('INSERT OR REPLACE INTO sent_reminders (key, event_time) VALUES (?, ?)');
+        for (const [key, time] of Object.entries(data.sentReminders)) {
+            insertReminder.run(key, time);
+        }
+        Object.values(data.lastSchedules).forEach(schedule => this.saveLastSchedule(schedule));
+        this.insertScheduleVersions(data.scheduleHistory);
+        if (data.group) {
+            this.saveGroup(data.group);
+        }
+        this.saveAdmins(data.admins);
+    }
+
+    /**
+     * Import all data of the JSON storage (already migrated) in one transaction and remember the import
+     */
+    importData(data: StorageData): void {
+        this.db.transaction(() => {
+            this.writeData(data);
+            this.setMeta(JSON_IMPORTED_KEY, new Date().toISOString());
+        })();
+    }
+
+    loadSubscribers(): Subscriber[] {
+        const rows = this.db.prepare('SELECT data FROM subscribers ORDER BY chat_id').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    /**
+     * Upsert changed subscribers and delete the missing ones, keeping unchanged rows untouched
+     */
+    saveSubscribers(subscribers: Subscriber[]): void {
+        const upsert = this.db.prepare(`
+            INSERT INTO subscribers (chat_id, data) VALUES (?, ?)
+            ON CONFLICT (chat_id) DO UPDATE SET data = excluded.data WHERE data != excluded.data
+        `);
+        const removeMissing = this.db.prepare('DELETE FROM subscribers WHERE chat_id NOT IN (SELECT value FROM json_each(?))');
+
+        this.db.transaction(() => {
+            subscribers.forEach(s => upsert.run(s.chatId, JSON.stringify(s)));
+            removeMissing.run(JSON.stringify(subscribers.map(s => s.chatId)));
+        })();
+    }
+
+    loadShares(): Share[] {
+        const rows = this.db.prepare('SELECT data FROM shares ORDER BY rowid').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    saveShare(share: Share): void {
+        this.db.prepare('INSERT OR REPLACE INTO shares (token, data) VALUES (?, ?)').run(share.token, JSON.stringify(share));
+    }
+
+    isReminderSent(key: string): boolean {
+        return this.db.prepare('SELECT 1 FROM sent_reminders WHERE key = ?').get(key) !== undefined;
+    }
+
+    markReminderSent(key: string, eventTime: string, cutoff: string): void {
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM sent_reminders WHERE julianday(event_time) < julianday(?)').run(cutoff);
+            this.db.prepare('INSERT OR REPLACE INTO sent_reminders (key, event_time) VALUES (?, ?)').run(key, eventTime);
+        })();
+    }
+
+    loadLastSchedule(group: string): StoredGroupSchedule | null {
+        const row = this.db.prepare('SELECT data FROM last_schedules WHERE group_name = ?').get(group) as { data: string } | undefined;
+        return row ? JSON.parse(row.data) : null;
+    }
+
+    saveLastSchedule(schedule: StoredGroupSchedule): void {
+        this.db.prepare('INSERT OR REPLACE INTO last_schedules (group_name, data) VALUES (?, ?)')
+            .run(schedule.group, JSON.stringify(schedule));
+    }
+
+    loadScheduleHistory(group: string, fromDate: string = '', toDate: string = '9999-12-31'): StoredScheduleVersion[] {
+        const rows = this.db.prepare(`
+            SELECT data FROM schedule_history
+            WHERE group_name = ? AND date >= ? AND date <= ?
+            ORDER BY id
+        `).all(group, fromDate, toDate) as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    private insertScheduleVersions(versions: StoredScheduleVersion[]): void {
+        const insert = this.db.prepare('INSERT INTO schedule_history (group_name, date, data) VALUES (?, ?, ?)');
+        versions.forEach(v => insert.run(v.group, v.date, JSON.stringify(v)));
+    }
+
+    addScheduleVersions(versions: StoredScheduleVersion[], cutoffDate: string): void {
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM schedule_history WHERE date < ?').run(cutoffDate);
+            this.insertScheduleVersions(versions);
+        })();
+    }
+
+    loadGroup(): string | null {
+        return this.getMeta('group');
+    }
+
+    saveGroup(group: string): void {
+        this.setMeta('group', group);
+    }
+
+    loadAdmins(): Admin[] {
+        const rows = this.db.prepare('SELECT data FROM admins ORDER BY chat_id').all() as { data: string }[];
+        return rows.map(row => JSON.parse(row.data));
+    }
+
+    saveAdmins(admins: Admin[]): void {
+        const insert = this.db.prepare('INSERT INTO admins (chat_id, data) VALUES (?, ?)');
+        this.db.transaction(() => {
+            this.db.exec('DELETE FROM admins');
+            admins.forEach(a => insert.run(a.chatId, JSON.stringify(a)));
+        })();
+    }
+}
@@ -1,146 +1,349 @@
 import fs from 'fs';
 import path from 'path';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import { JsonStorage } from './jsonStorage.js';
+import { SqliteStorage } from './sqliteStorage.js';
+import { AdminRole, Address, Range, DaySchedule, GroupSchedule, ScheduleVersion, TimeWindow, ScheduleEvent, SCHEDULE_EVENT_TITLES, TZ } from './types.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 const DATA_DIR = process.env.DATA_DIR || './data';
 const DATA_FILE = path.join(DATA_DIR, 'data.json');
+const SQLITE_FILE = path.join(DATA_DIR, 'data.sqlite');
+// "json" (default) or "sqlite", switching to SQLite imports data.json once
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'json';
+// Timestamped backups of data.json kept in DATA_DIR
+const BACKUP_COUNT = Number(process.env.BACKUP_COUNT) || 24;
+
+const DEFAULT_LOCATION_LABEL = 'Дім';
+const ALL_EVENTS = Object.keys(SCHEDULE_EVENT_TITLES) as ScheduleEvent[];
+
+/**
+ * Labelled location of a subscriber (home, office, parents...)
+ */
+export interface Location {
+    label: string;
+    group: string | null;  // null = follow the default (auto-detected) group
+    address: Address | null;  // group is auto-updated from this address when set
+}
+
+/**
+ * Quiet hours (Europe/Kyiv time) when broadcasts are silent or held
+ */
+export interface QuietHours extends TimeWindow {
+    mode: 'silent' | 'hold';  // send without sound / deliver one summary when the window ends
+    allowUrgent: boolean;     // urgent messages (today's schedule changed) bypass quiet hours
+}
+
+/**
+ * Delivery tracking of broadcasts to a subscriber
+ */
+export interface DeliveryStatus {
+    lastSuccessAt: string | null;
+    consecutiveFailures: number;
+    failingSince: string | null;  // ISO time of the first of the consecutive failures
+    lastErrorCode: number | null;  // Telegram error code, null for network errors
+    lastErrorDescription: string | null;
+}
 
 /**
- * Subscriber info with name
+ * Subscriber info with name and saved locations
  */
 export interface Subscriber {
     chatId: number;
     name: string;
+    locations: Location[];  // always at least one, the first is the primary
+    reminderMinutes: number | null;  // warn N minutes before an outage, null = reminders off
+    quietHours: QuietHours | null;
+    heldUpdates: number;  // updates held during quiet hours, summarized when they end
+    pausedUntil: string | null;  // ISO time until which broadcasts are suppressed
+    events: ScheduleEvent[];  // schedule change events the subscriber receives
+    digestTime: string | null;  // "HH:mm" (Europe/Kyiv) of the daily digest, null = digest off
+    delivery: DeliveryStatus;
+    inactiveSince: string | null;  // set when the chat stays unreachable, broadcasts skip it until it writes again
 }
 
 /**
- * Data structure for persistent storage
+ * Bot maintainer with their role
  */
-interface StorageData {
-    subscribers: Subscriber[];
-    lastState: string | null;
-    group: string | null;
+export interface Admin {
+    chatId: number;
+    role: AdminRole;
+    addedBy: number | null;  // null = seeded from environment
+    addedAt: string;
 }
 
 /**
- * Default empty data
+ * Location shared through a /start deep link
  */
-const DEFAULT_DATA: StorageData = {
-    subscribers: [],
-    lastState: null,
-    group: null,
-};
+export interface Share {
+    token: string;
+    inviterChatId: number;
+    location: Location;
+    notifyInviter: boolean;
+    createdAt: string;
+}
 
 /**
- * Ensure data directory exists
+ * Outage range as persisted, with times as ISO strings
  */
-function ensureDataDir(): void {
-    console.log(`[Storage] DATA_DIR: ${DATA_DIR}, DATA_FILE: ${DATA_FILE}`);
-    if (!fs.existsSync(DATA_DIR)) {
-        console.log(`[Storage] Creating directory: ${DATA_DIR}`);
-        fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
+export interface StoredRange {
+    start: string;
+    end: string;
+}
+
+export interface StoredDaySchedule extends Omit<DaySchedule, 'outages'> {
+    outages: StoredRange[];
+}
+
+export interface StoredScheduleVersion extends StoredDaySchedule {
+    seenAt: string;
+}
+
+export interface StoredGroupSchedule {
+    group: string;
+    today: StoredDaySchedule | null;
+    tomorrow: StoredDaySchedule | null;
 }
 
 /**
- * Load all data from storage
- */
-function loadData(): StorageData {
-    try {
-        ensureDataDir();
-        if (fs.existsSync(DATA_FILE)) {
-            const raw = fs.readFileSync(DATA_FILE, 'utf-8');
-            const parsed = JSON.parse(raw);
-            
-            // Migration: convert old format (number[]) to new format (Subscriber[])
-            if (parsed.subscribers && parsed.subscribers.length > 0) {
-                if (typeof parsed.subscribers[0] === 'number') {
-                    console.log('[Storage] Migrating old subscribers format...');
-                    parsed.subscribers = parsed.subscribers.map((chatId: number) => ({
-                        chatId,
-                        name: 'Unknown',
-                    }));
-                }
-            }
-            
-            return { ...DEFAULT_DATA, ...parsed };
-        }
-    } catch (err) {
-        console.error('Error loading data:', err);
-    }
-    return { ...DEFAULT_DATA };
+ * Data structure of the JSON storage file
+ */
+export interface StorageData {
+    schemaVersion: number;  // see migrations.ts
+    subscribers: Subscriber[];
+    shares: Share[];
+    sentReminders: Record<string, string>;  // reminder key -> ISO time of the reminded event
+    lastSchedules: Record<string, StoredGroupSchedule>;  // group -> last seen schedule
+    scheduleHistory: StoredScheduleVersion[];  // distinct versions of every group's day schedule, oldest first
+    group: string | null;
+    admins: Admin[];
 }
 
 /**
- * Save all data to storage
+ * Persistence operations implemented by each storage backend
+ * Backends bring their data to the current schema (see migrations.ts) when opened
  */
-function saveData(data: StorageData): void {
-    try {
-        ensureDataDir();
-        fs.writeFileSync(DATA_FILE, JSON.stringify(data, null, 2), 'utf-8');
-        console.log(`[Storage] Saved data to ${DATA_FILE}: ${data.subscribers.length} subscribers`);
-    } catch (err) {
-        console.error('[Storage] Error saving data:', err);
-    }
+export interface StorageBackend {
+    loadSubscribers(): Subscriber[];
+    saveSubscribers(subscribers: Subscriber[]): void;
+    loadShares(): Share[];
+    saveShare(share: Share): void;
+    isReminderSent(key: string): boolean;
+    markReminderSent(key: string, eventTime: string, cutoff: string): void;  // also forgets events before cutoff
+    loadLastSchedule(group: string): StoredGroupSchedule | null;
+    saveLastSchedule(schedule: StoredGroupSchedule): void;
+    loadScheduleHistory(group: string, fromDate?: string, toDate?: string): StoredScheduleVersion[];  // oldest first
+    addScheduleVersions(versions: StoredScheduleVersion[], cutoffDate: string): void;  // also forgets days before cutoffDate
+    loadGroup(): string | null;
+    saveGroup(group: string): void;
+    loadAdmins(): Admin[];
+    saveAdmins(admins: Admin[]): void;
 }
 
-// --- Cached data for performance ---
-let cachedData: StorageData | null = null;
+let backend: StorageBackend | null = null;
 
-function getData(): StorageData {
-    if (!cachedData) {
-        cachedData = loadData();
-        console.log(`Loaded data: ${cachedData.subscribers.length} subscribers, group: ${cachedData.group}`);
+/**
+ * Open the configured backend, importing data.json into a new SQLite database once
+ */
+function createBackend(): StorageBackend {
+    if (STORAGE_BACKEND !== 'sqlite') {
+        return new JsonStorage(DATA_FILE, BACKUP_COUNT);
+    }
+
+    const sqlite = new SqliteStorage(SQLITE_FILE);
+    if (!sqlite.hasImportedJson() && fs.existsSync(DATA_FILE)) {
+        console.log(`[Storage] Migrating ${DATA_FILE} to SQLite...`);
+        const data = new JsonStorage(DATA_FILE, BACKUP_COUNT).getData();
+        sqlite.importData(data);
+        console.log(`[Storage] Migrated ${data.subscribers.length} subscribers, ${data.scheduleHistory.length} schedule versions`);
     }
-    return cachedData;
+    return sqlite;
 }
 
-function updateData(updates: Partial<StorageData>): void {
-    cachedData = { ...getData(), ...updates };
-    saveData(cachedData);
+function getBackend(): StorageBackend {
+    if (!backend) {
+        backend = createBackend();
+    }
+    return backend;
 }
 
 // --- Public API ---
 
+/**
+ * Create a location following the default group
+ */
+export function createLocation(label: string = DEFAULT_LOCATION_LABEL): Location {
+    return { label, group: null, address: null };
+}
+
+/**
+ * Create a subscriber with default settings
+ */
+export function createSubscriber(chatId: number, name: string, locations: Location[] = [createLocation()]): Subscriber {
+    return {
+        chatId,
+        name,
+        locations,
+        reminderMinutes: null,
+        quietHours: null,
+        heldUpdates: 0,
+        pausedUntil: null,
+        events: ALL_EVENTS,
+        digestTime: null,
+        delivery: { lastSuccessAt: null, consecutiveFailures: 0, failingSince: null, lastErrorCode: null, lastErrorDescription: null },
+        inactiveSince: null,
+    };
+}
+
 /**
  * Load subscribers from persistent storage
  * Returns a Map of chatId -> Subscriber
  */
 export function loadSubscribers(): Map<number, Subscriber> {
-    const data = getData();
-    return new Map(data.subscribers.map(s => [s.chatId, s]));
+    return new Map(getBackend().loadSubscribers().map(s => [s.chatId, s]));
 }
 
 /**
  * Save subscribers to persistent storage
  */
 export function saveSubscribers(subscribers: Map<number, Subscriber>): void {
-    updateData({ subscribers: [...subscribers.values()] });
+    getBackend().saveSubscribers([...subscribers.values()]);
+}
+
+function toStoredRanges(ranges: Range[]): StoredRange[] {
+    return ranges.map(r => ({ start: r.start.toISOString(), end: r.end.toISOString() }));
+}
+
+function fromStoredRanges(ranges: StoredRange[]): Range[] {
+    return ranges.map(r => ({ start: dayjs(r.start).tz(TZ), end: dayjs(r.end).tz(TZ) }));
+}
+
+function toStoredDay(day: DaySchedule | null): StoredDaySchedule | null {
+    return day && { ...day, outages: toStoredRanges(day.outages) };
+}
+
+function fromStoredDay(day: StoredDaySchedule | null): DaySchedule | null {
+    return day && { ...day, outages: fromStoredRanges(day.outages) };
+}
+
+/**
+ * Load last seen schedule of a group from persistent storage
+ */
+export function loadLastSchedule(group: string): GroupSchedule | null {
+    const stored = getBackend().loadLastSchedule(group);
+    if (!stored) return null;
+    return { group, today: fromStoredDay(stored.today), tomorrow: fromStoredDay(stored.tomorrow) };
 }
 
 /**
- * Load last state from persistent storage
+ * Save last seen schedule of a group to persistent storage
  */
-export function loadLastState(): string | null {
-    return getData().lastState;
+export function saveLastSchedule(schedule: GroupSchedule): void {
+    const stored = { group: schedule.group, today: toStoredDay(schedule.today), tomorrow: toStoredDay(schedule.tomorrow) };
+    getBackend().saveLastSchedule(stored);
 }
 
 /**
- * Save last state to persistent storage
+ * Load archived versions of a group's schedule for a date ("YYYY-MM-DD"), oldest first
  */
-export function saveLastState(state: string): void {
-    updateData({ lastState: state });
+export function loadScheduleVersions(group: string, date: string): ScheduleVersion[] {
+    return getBackend().loadScheduleHistory(group, date, date)
+        .map(v => ({ ...v, outages: fromStoredRanges(v.outages) }));
 }
 
 /**
- * Load group from persistent storage
+ * Load final (last archived) schedule of a group for each date in the range, inclusive
+ * Dates without archived schedule are skipped
+ */
+export function loadDailySchedules(group: string, fromDate: string, toDate: string): ScheduleVersion[] {
+    const finals = new Map<string, StoredScheduleVersion>();
+    for (const v of getBackend().loadScheduleHistory(group, fromDate, toDate)) {
+        finals.set(v.date, v);
+    }
+    return [...finals.values()]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(v => ({ ...v, outages: fromStoredRanges(v.outages) }));
+}
+
+/**
+ * Load dates with archived schedule of a group
+ * Returns date -> number of versions
+ */
+export function loadHistoryDates(group: string): Map<string, number> {
+    const dates = new Map<string, number>();
+    for (const v of getBackend().loadScheduleHistory(group)) {
+        dates.set(v.date, (dates.get(v.date) ?? 0) + 1);
+    }
+    return dates;
+}
+
+/**
+ * Archive new schedule versions, forgetting days older than keepDays
+ */
+export function saveScheduleVersions(versions: ScheduleVersion[], keepDays: number): void {
+    const cutoff = dayjs().tz(TZ).subtract(keepDays, 'day').format('YYYY-MM-DD');
+    const stored = versions.map(v => ({ ...v, outages: toStoredRanges(v.outages) }));
+    getBackend().addScheduleVersions(stored, cutoff);
+}
+
+/**
+ * Load default group from persistent storage
  */
 export function loadGroup(): string | null {
-    return getData().group;
+    return getBackend().loadGroup();
 }
 
 /**
- * Save group to persistent storage
+ * Save default group to persistent storage
  */
 export function saveGroup(group: string): void {
-    updateData({ group });
+    getBackend().saveGroup(group);
+}
+
+/**
+ * Load bot maintainers from persistent storage
+ * Returns a Map of chatId -> Admin
+ */
+export function loadAdmins(): Map<number, Admin> {
+    return new Map(getBackend().loadAdmins().map(a => [a.chatId, a]));
+}
+
+/**
+ * Save bot maintainers to persistent storage
+ */
+export function saveAdmins(admins: Map<number, Admin>): void {
+    getBackend().saveAdmins([...admins.values()]);
+}
+
+/**
+ * Load all shared locations from persistent storage
+ */
+export function loadShares(): Share[] {
+    return getBackend().loadShares();
+}
+
+/**
+ * Save (insert or replace by token) a shared location
+ */
+export function saveShare(share: Share): void {
+    getBackend().saveShare(share);
+}
+
+/**
+ * Check whether a reminder was already sent
+ */
+export function isReminderSent(key: string): boolean {
+    return getBackend().isReminderSent(key);
+}
+
+/**
+ * Remember a sent reminder, forgetting reminders about events older than keepMs
+ */
+export function markReminderSent(key: string, eventTime: string, keepMs: number): void {
+    const cutoff = new Date(Date.now() - keepMs).toISOString();
+    getBackend().markReminderSent(key, eventTime, cutoff);
 }
@@ -0,0 +1,94 @@
+import { Resvg } from '@resvg/resvg-js';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import { DaySchedule, TZ } from './types.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const WIDTH = 720;
+const PADDING = 24;
+const HEADER_HEIGHT = 56;
+const ROW_HEIGHT = 100;
+const BAR_HEIGHT = 36;
+const MINUTES_PER_DAY = 24 * 60;
+
+const COLORS = {
+    background: '#ffffff',
+    text: '#212121',
+    muted: '#757575',
+    power: '#c8e6c9',
+    outage: '#e53935',
+    now: '#1565c0',
+};
+
+/**
+ * Day shown on the timeline with its label, e.g., "Сьогодні, 18.10"
+ */
+export interface TimelineDay {
+    label: string;
+    schedule: DaySchedule;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Build SVG with one 24-hour bar per day: outages in red, a "now" marker on the current day
+ */
+export function buildTimelineSvg(title: string, days: TimelineDay[], now?: dayjs.Dayjs): string {
+    now = now || dayjs().tz(TZ);
+    const barWidth = WIDTH - PADDING * 2;
+    const height = HEADER_HEIGHT + days.length * ROW_HEIGHT;
+    const toX = (minutes: number) => PADDING + Math.min(Math.max(minutes, 0), MINUTES_PER_DAY) / MINUTES_PER_DAY * barWidth;
+
+    const parts = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="DejaVu Sans, sans-serif">`,
+        `<rect width="${WIDTH}" height="${height}" fill="${COLORS.background}"/>`,
+        `<text x="${PADDING}" y="36" font-size="22" font-weight="bold" fill="${COLORS.text}">${escapeXml(title)}</text>`,
+    ];
+
+    days.forEach(({ label, schedule }, i) => {
+        const top = HEADER_HEIGHT + i * ROW_HEIGHT;
+        const barTop = top + 28;
+        const dayStart = dayjs.tz(schedule.date, TZ);
+
+        parts.push(`<text x="${PADDING}" y="${top + 18}" font-size="16" fill="${COLORS.text}">${escapeXml(label)}</text>`);
+        parts.push(`<rect x="${PADDING}" y="${barTop}" width="${barWidth}" height="${BAR_HEIGHT}" rx="4" fill="${COLORS.power}"/>`);
+
+        for (const r of schedule.outages) {
+            const x = toX(r.start.diff(dayStart, 'minute'));
+            const width = toX(r.end.diff(dayStart, 'minute')) - x;
+            parts.push(`<rect class="outage" x="${x}" y="${barTop}" width="${width}" height="${BAR_HEIGHT}" fill="${COLORS.outage}"/>`);
+        }
+
+        // Hour marks every 3 hours
+        for (let h = 0; h <= 24; h += 3) {
+            const x = toX(h * 60);
+            parts.push(`<line x1="${x}" y1="${barTop + BAR_HEIGHT}" x2="${x}" y2="${barTop + BAR_HEIGHT + 6}" stroke="${COLORS.muted}"/>`);
+            parts.push(`<text x="${x}" y="${barTop + BAR_HEIGHT + 22}" font-size="12" text-anchor="middle" fill="${COLORS.muted}">${String(h).padStart(2, '0')}</text>`);
+        }
+
+        if (now.format('YYYY-MM-DD') === schedule.date) {
+            const x = toX(now.diff(dayStart, 'minute'));
+            parts.push(`<line class="now" x1="${x}" y1="${barTop - 6}" x2="${x}" y2="${barTop + BAR_HEIGHT + 6}" stroke="${COLORS.now}" stroke-width="3"/>`);
+        }
+    });
+
+    parts.push('</svg>');
+    return parts.join('\n');
+}
+
+/**
+ * Render timeline to PNG locally (see buildTimelineSvg)
+ */
+export function renderTimelinePng(title: string, days: TimelineDay[], now?: dayjs.Dayjs): Buffer {
+    const svg = buildTimelineSvg(title, days, now);
+    const resvg = new Resvg(svg, {
+        fitTo: { mode: 'zoom', value: 2 },
+        font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' },
+    });
+    return resvg.render().asPng();
+}
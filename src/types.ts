@@ -18,9 +18,160 @@ export type ElectricityStatusResult = {
     hasTomorrowSchedule: boolean;
 };
 
+export type ReminderEvent = {
+    type: 'off' | 'on';       // 'off' = outage is about to start, 'on' = power should be back
+    range: Range;             // Outage the reminder is about
+    minutesLeft: number;      // Minutes until outage start (0 for 'on')
+};
+
+/**
+ * Parsed schedule of one group for one day
+ */
+export type DaySchedule = {
+    date: string;                  // "YYYY-MM-DD" (Europe/Kyiv)
+    group: string;
+    outages: Range[];              // Sorted outage intervals
+    powerAllDay: boolean;          // Source says electricity is available all day
+    infoTimestamp: string | null;  // "Інформація станом на ..." text from the source
+};
+
+/**
+ * Parsed schedule of one group for today and tomorrow (null = not published / not found)
+ */
+export type GroupSchedule = {
+    group: string;
+    today: DaySchedule | null;
+    tomorrow: DaySchedule | null;
+};
+
+/**
+ * Archived version of a day's schedule
+ */
+export type ScheduleVersion = DaySchedule & {
+    seenAt: string;  // ISO time the version was first fetched
+};
+
+/**
+ * Outage statistics over a period of days
+ */
+export type OutageStats = {
+    days: number;             // Days with a known schedule
+    totalHours: number;
+    averageHours: number;     // Per day with a known schedule
+    longest: Range | null;    // Longest continuous outage (may cross midnight)
+    frequentHours: number[];  // Hours of day most often without power, most frequent first
+};
+
 export type ScheduleMessageResult = {
     fullMessage: string;      // Message with timestamp (for display)
-    scheduleContent: string;  // Schedule only (for comparison)
+    scheduleContent: string;  // Schedule only (without timestamp)
+};
+
+/**
+ * Kinds of schedule changes subscribers can opt in to
+ */
+export type ScheduleEvent =
+    | 'tomorrow_published'
+    | 'today_changed'
+    | 'tomorrow_changed'
+    | 'cleared'
+    | 'group_changed';
+
+export const SCHEDULE_EVENT_TITLES: Record<ScheduleEvent, string> = {
+    tomorrow_published: '📅 Опубліковано графік на завтра',
+    today_changed: '⚠️ Змінено графік на сьогодні',
+    tomorrow_changed: '🔄 Змінено графік на завтра',
+    cleared: '✅ Відключення скасовано',
+    group_changed: '🏠 Змінено групу',
+};
+
+/**
+ * Single classified change of one day's schedule
+ */
+export type ScheduleChange = {
+    event: ScheduleEvent;
+    day: 'today' | 'tomorrow';
+    prev: DaySchedule | null;  // null when the day's schedule was just published
+    next: DaySchedule;
+};
+
+/**
+ * Change of a single outage interval
+ */
+export type RangeChange = {
+    type: 'added' | 'removed' | 'extended' | 'shortened';
+    from: Range | null;  // previous interval (null for 'added')
+    to: Range | null;    // new interval (null for 'removed')
+};
+
+export type TimeWindow = {
+    start: string;  // "HH:mm"
+    end: string;    // "HH:mm", may be before start for windows crossing midnight
 };
 
 export const TZ = 'Europe/Kyiv';
+
+/**
+ * All outage queues published by LOE (1.1 – 6.2)
+ */
+export const GROUPS = [
+    '1.1', '1.2',
+    '2.1', '2.2',
+    '3.1', '3.2',
+    '4.1', '4.2',
+    '5.1', '5.2',
+    '6.1', '6.2',
+];
+
+/**
+ * Address resolved through the LOE power accounts API
+ */
+export type Address = {
+    cityId: number;
+    cityName: string;
+    streetId: number;
+    streetName: string;
+    building: string;
+};
+
+/**
+ * City or street found by the LOE power API search
+ */
+export type PowerApiItem = {
+    id: number;
+    name: string;
+};
+
+/**
+ * Parsed /start deep link payload
+ */
+export type StartPayload =
+    | { type: 'group'; group: string }
+    | { type: 'share'; token: string };
+
+/**
+ * Role of a bot maintainer
+ */
+export type AdminRole = 'owner' | 'admin' | 'viewer';
+
+/**
+ * Action allowed to maintainers depending on their role
+ */
+export type AdminPermission = 'debug' | 'broadcast' | 'configure';
+
+/**
+ * Permissions of each role: viewer sees debug info, admin also sends broadcasts, owner also manages admins
+ */
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+    owner: ['debug', 'broadcast', 'configure'],
+    admin: ['debug', 'broadcast'],
+    viewer: ['debug'],
+};
+
+/**
+ * Parsed /admin command
+ */
+export type AdminCommand =
+    | { action: 'list' }
+    | { action: 'add'; chatId: number; role: AdminRole }
+    | { action: 'remove'; chatId: number };
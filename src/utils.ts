@@ -3,7 +3,7 @@ import utc from 'dayjs/plugin/utc.js';
 import timezone from 'dayjs/plugin/timezone.js';
 import isBetween from 'dayjs/plugin/isBetween.js';
 import * as cheerio from 'cheerio';
-import { Range, ElectricityStatusResult, TZ } from './types.js';
+import { AdminRole, AdminCommand, ADMIN_ROLE_PERMISSIONS, AdminPermission, Range, ScheduleData, ElectricityStatusResult, TZ, GROUPS, Address, StartPayload, ReminderEvent, DaySchedule, GroupSchedule, OutageStats, TimeWindow, ScheduleChange, RangeChange } from './types.js';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -41,6 +41,14 @@ export function formatGroupEmoji(group: string): string {
     return group.split('.').map(numberToEmoji).join('.');
 }
 
+/**
+ * Check that group is one of the known LOE queues
+ * e.g., "3.1" -> true, "7.1" -> false
+ */
+export function isValidGroup(group: string | null | undefined): group is string {
+    return !!group && GROUPS.includes(group);
+}
+
 /**
  * Parse group from API response
  * Handles both "12" (converts to "1.2") and "1.2" formats
@@ -66,6 +74,98 @@ export function parseGroupFromApi(chergGpv: string | number | null | undefined):
     }
 }
 
+/**
+ * Parse /start deep link payload
+ * e.g., "group_1_2" -> { type: 'group', group: '1.2' }, "share_AbC123" -> { type: 'share', token: 'AbC123' }
+ */
+export function parseStartPayload(payload: string | null | undefined): StartPayload | null {
+    if (!payload) return null;
+
+    const groupMatch = payload.match(/^group_(\d)_(\d)$/);
+    if (groupMatch) {
+        const group = `${groupMatch[1]}.${groupMatch[2]}`;
+        return isValidGroup(group) ? { type: 'group', group } : null;
+    }
+
+    const shareMatch = payload.match(/^share_([A-Za-z0-9_-]+)$/);
+    if (shareMatch) {
+        return { type: 'share', token: shareMatch[1] };
+    }
+
+    return null;
+}
+
+/**
+ * Parse /admin command payload
+ * e.g., "" or "list" -> { action: 'list' }, "add 123 viewer" -> { action: 'add', chatId: 123, role: 'viewer' }, "remove 123"
+ * Role of "add" defaults to admin, returns null for invalid input
+ */
+export function parseAdminCommand(payload: string | null | undefined): AdminCommand | null {
+    const parts = (payload ?? '').trim().split(/\s+/).filter(Boolean);
+    const [action = 'list', id, role = 'admin'] = parts;
+
+    if (action === 'list') {
+        return parts.length <= 1 ? { action } : null;
+    }
+    if (!id || !/^-?\d+$/.test(id)) return null;
+
+    if (action === 'add' && parts.length <= 3 && Object.keys(ADMIN_ROLE_PERMISSIONS).includes(role)) {
+        return { action, chatId: Number(id), role: role as AdminRole };
+    }
+    if (action === 'remove' && parts.length === 2) {
+        return { action, chatId: Number(id) };
+    }
+    return null;
+}
+
+/**
+ * Check whether a maintainer role allows the action, null role = not a maintainer
+ */
+export function hasAdminPermission(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+    return !!role && ADMIN_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Parse comma-separated chat ids, e.g., from environment
+ * e.g., "123456789, -100123" -> [123456789, -100123]
+ */
+export function parseChatIds(text: string | null | undefined): number[] {
+    return (text ?? '').split(',').map(s => s.trim()).filter(s => /^-?\d+$/.test(s)).map(Number);
+}
+
+/**
+ * Format group as /start deep link payload
+ * e.g., "1.2" -> "group_1_2"
+ */
+export function formatGroupPayload(group: string): string {
+    return `group_${group.replace('.', '_')}`;
+}
+
+/**
+ * Deduplicate and naturally sort building names
+ * e.g., ["10", "2", "2А", "2"] -> ["2", "2А", "10"]
+ */
+export function sortBuildingNames(names: Array<string | null | undefined>): string[] {
+    const unique = [...new Set(names.filter((n): n is string => !!n && n.trim().length > 0))];
+    return unique.sort((a, b) => a.localeCompare(b, 'uk', { numeric: true }));
+}
+
+/**
+ * Format address for display
+ * e.g., "Львів, Городоцька, 50"
+ */
+export function formatAddress(address: Address): string {
+    return `${address.cityName}, ${address.streetName}, ${address.building}`;
+}
+
+/**
+ * Escape user-provided text for Telegram Markdown (legacy) messages
+ * e.g., "my_home" -> "my\_home"
+ */
+export function escapeMarkdown(text: string): string {
+    return text.replace(/([_*`\[])/g, '\\$1');
+}
+
 /**
  * Format minutes as human-readable duration
  * e.g., 150 -> "2 год 30 хв"
@@ -171,22 +271,31 @@ export function getFirstOutageTime(groupText: string): string | null {
 }
 
 /**
- * Extract group text from HTML for a specific group
+ * Extract texts of all groups from HTML in one pass
+ * Returns group -> group text
  */
-export function extractGroupText(html: string, group: string): string | null {
-    if (!html) return null;
-    
+export function extractGroupTexts(html: string): Map<string, string> {
+    const groupTexts = new Map<string, string>();
+    if (!html) return groupTexts;
+
     const $ = cheerio.load(html);
-    let groupText: string | null = null;
 
     $('p').each((_, el) => {
         const text = $(el).text().trim();
-        if (text.startsWith(`Група ${group}.`)) {
-            groupText = text;
+        const match = text.match(/^Група (\d\.\d)\./);
+        if (match) {
+            groupTexts.set(match[1], text);
         }
     });
 
-    return groupText;
+    return groupTexts;
+}
+
+/**
+ * Extract group text from HTML for a specific group
+ */
+export function extractGroupText(html: string, group: string): string | null {
+    return extractGroupTexts(html).get(group) ?? null;
 }
 
 /**
@@ -208,6 +317,124 @@ export function extractInfoText(html: string): string | null {
     return infoText;
 }
 
+/**
+ * Extract the date the schedule is for from HTML (e.g., "Графік погодинних відключень на 18.10.2026")
+ * Returns date as "YYYY-MM-DD" or null if the page has no such heading
+ */
+export function extractScheduleDate(html: string): string | null {
+    if (!html) return null;
+
+    const $ = cheerio.load(html);
+    let date: string | null = null;
+
+    $('p').each((_, el) => {
+        const text = $(el).text().trim();
+        const match = text.match(/на (\d{2})\.(\d{2})\.(\d{4})/);
+        if (!date && match && !text.startsWith('Інформація станом на')) {
+            date = `${match[3]}-${match[2]}-${match[1]}`;
+        }
+    });
+
+    return date;
+}
+
+/**
+ * Parse schedules of all groups for one day from HTML
+ * The date is taken from the page heading, falling back to the given date
+ * Returns group -> day schedule, groups missing on the page are skipped
+ */
+export function parseDaySchedules(html: string, fallbackDate: dayjs.Dayjs): Map<string, DaySchedule> {
+    const pageDate = extractScheduleDate(html);
+    const date = pageDate ? dayjs.tz(pageDate, TZ) : fallbackDate.startOf('day');
+    const infoTimestamp = extractInfoText(html);
+
+    const days = new Map<string, DaySchedule>();
+    for (const [group, groupText] of extractGroupTexts(html)) {
+        const outages = parseTimeRanges(groupText, date);
+        days.set(group, {
+            date: date.format('YYYY-MM-DD'),
+            group,
+            outages,
+            powerAllDay: outages.length === 0 && groupText.includes('Електроенергія є'),
+            infoTimestamp,
+        });
+    }
+
+    return days;
+}
+
+/**
+ * Parse a group's schedule for one day from HTML (see parseDaySchedules)
+ * Returns null if the group is not found
+ */
+export function parseDaySchedule(html: string, group: string, fallbackDate: dayjs.Dayjs): DaySchedule | null {
+    return parseDaySchedules(html, fallbackDate).get(group) ?? null;
+}
+
+/**
+ * Parse schedules of all groups for today and tomorrow from fetched schedule data
+ * Each page is parsed once, every group of GROUPS is present in the result
+ */
+export function parseAllGroupSchedules(schedule: ScheduleData, now?: dayjs.Dayjs): Map<string, GroupSchedule> {
+    now = now || dayjs().tz(TZ);
+    const today = parseDaySchedules(schedule.today, now);
+    const tomorrow = parseDaySchedules(schedule.tomorrow, now.add(1, 'day'));
+
+    return new Map(GROUPS.map(group => [group, {
+        group,
+        today: today.get(group) ?? null,
+        tomorrow: tomorrow.get(group) ?? null,
+    }]));
+}
+
+/**
+ * Parse a group's schedule for today and tomorrow from fetched schedule data
+ */
+export function parseGroupSchedule(schedule: ScheduleData, group: string, now?: dayjs.Dayjs): GroupSchedule {
+    return parseAllGroupSchedules(schedule, now).get(group) ?? { group, today: null, tomorrow: null };
+}
+
+/**
+ * Get day's outages as "HH:mm до HH:mm" strings (format of parseOutageTimes)
+ */
+export function getOutageTimes(day: DaySchedule): string[] {
+    return day.outages.map(r => formatRange(r, ' до '));
+}
+
+/**
+ * Format compact table of groups' outages for one day, one monospace row per group
+ * e.g., "1.2 │    6 год │ 08:00–12:00, 20:00–22:00"
+ */
+export function formatGroupsTable(days: DaySchedule[]): string {
+    const rows = days.map(d => {
+        const hours = calculateTotalHours(getOutageTimes(d));
+        const ranges = d.outages.length > 0
+            ? d.outages.map(r => formatRange(r)).join(', ')
+            : 'без вимкнень';
+        return `${d.group} │ ${String(hours).padStart(4)} год │ ${ranges}`;
+    });
+    return '```\n' + rows.join('\n') + '\n```';
+}
+
+/**
+ * Compare two versions of a day's schedule by date and outages
+ * The source info timestamp is ignored, it changes on every re-publication
+ */
+export function isSameDaySchedule(a: DaySchedule | null, b: DaySchedule | null): boolean {
+    if (!a || !b) return a === b;
+    return a.date === b.date &&
+        a.powerAllDay === b.powerAllDay &&
+        a.outages.length === b.outages.length &&
+        a.outages.every((r, i) => r.start.isSame(b.outages[i].start) && r.end.isSame(b.outages[i].end));
+}
+
+/**
+ * Compare two versions of a group's schedule (see isSameDaySchedule)
+ */
+export function isSameGroupSchedule(a: GroupSchedule | null, b: GroupSchedule): boolean {
+    return !!a && isSameDaySchedule(a.today, b.today) && isSameDaySchedule(a.tomorrow, b.tomorrow);
+}
+
 /**
  * Get electricity status with cross-day support
  * 
@@ -302,6 +529,377 @@ export function getElectricityStatus(
     };
 }
 
+/**
+ * Merge overlapping or adjacent ranges
+ * e.g., today's 22:00-24:00 and tomorrow's 00:00-02:00 become one outage 22:00-02:00
+ */
+export function mergeRanges(ranges: Range[]): Range[] {
+    const sorted = [...ranges].sort((a, b) => a.start.valueOf() - b.start.valueOf());
+    const merged: Range[] = [];
+
+    for (const r of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && !r.start.isAfter(last.end)) {
+            if (r.end.isAfter(last.end)) {
+                last.end = r.end;
+            }
+        } else {
+            merged.push({ start: r.start, end: r.end });
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Get reminders due at the given moment
+ * 
+ * @param todayGroupText - Today's schedule text for the group
+ * @param tomorrowGroupText - Tomorrow's schedule text (optional)
+ * @param leadMinutes - How many minutes before an outage to warn
+ * @param graceMinutes - How long after power return the 'on' reminder is still due
+ * @param now - Current time (optional, defaults to now)
+ */
+export function getDueReminders(
+    todayGroupText: string,
+    tomorrowGroupText: string | null | undefined,
+    leadMinutes: number,
+    graceMinutes: number,
+    now?: dayjs.Dayjs
+): ReminderEvent[] {
+    now = now || dayjs().tz(TZ);
+    const todayBase = now.startOf('day');
+
+    const ranges = mergeRanges([
+        ...parseTimeRanges(todayGroupText, todayBase),
+        ...(tomorrowGroupText ? parseTimeRanges(tomorrowGroupText, todayBase.add(1, 'day')) : []),
+    ]);
+
+    const events: ReminderEvent[] = [];
+    for (const range of ranges) {
+        if (!now.isBefore(range.start.subtract(leadMinutes, 'minute')) && now.isBefore(range.start)) {
+            events.push({ type: 'off', range, minutesLeft: range.start.diff(now, 'minute') });
+        }
+        if (!now.isBefore(range.end) && now.isBefore(range.end.add(graceMinutes, 'minute'))) {
+            events.push({ type: 'on', range, minutesLeft: 0 });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Find the version of a day's schedule with the given date
+ */
+function findDaySchedule(schedule: GroupSchedule, date: string): DaySchedule | null {
+    return [schedule.today, schedule.tomorrow].find(d => d?.date === date) ?? null;
+}
+
+/**
+ * Describe what changed between two versions of a group's schedule, day by day
+ * Days are matched by date, so day rollover is not a change
+ * A day whose new schedule has no outages is reported as 'cleared'
+ * The very first check produces no changes
+ */
+export function getScheduleChanges(prev: GroupSchedule | null, next: GroupSchedule): ScheduleChange[] {
+    if (!prev) return [];
+
+    const changes: ScheduleChange[] = [];
+    for (const day of ['today', 'tomorrow'] as const) {
+        const nextDay = next[day];
+        if (!nextDay) continue;
+
+        const prevDay = findDaySchedule(prev, nextDay.date);
+        if (!prevDay) {
+            // A new today has nothing to be compared with
+            if (day === 'tomorrow') {
+                changes.push({ event: 'tomorrow_published', day, prev: null, next: nextDay });
+            }
+            continue;
+        }
+        if (isSameDaySchedule(prevDay, nextDay)) continue;
+
+        changes.push({
+            event: nextDay.outages.length === 0 ? 'cleared' : day === 'today' ? 'today_changed' : 'tomorrow_changed',
+            day,
+            prev: prevDay,
+            next: nextDay,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Check whether today's schedule really changed
+ */
+export function isTodayScheduleChanged(prev: GroupSchedule | null, next: GroupSchedule): boolean {
+    return getScheduleChanges(prev, next).some(c => c.day === 'today');
+}
+
+/**
+ * Compare outage intervals of two schedule versions
+ * An interval overlapping exactly one interval of the other version is extended/shortened,
+ * anything else is reported as removed and/or added
+ */
+export function diffRanges(prev: Range[], next: Range[]): RangeChange[] {
+    const overlaps = (a: Range, b: Range) => a.start.isBefore(b.end) && b.start.isBefore(a.end);
+    const duration = (r: Range) => r.end.diff(r.start, 'minute');
+
+    const changes: RangeChange[] = [];
+    const matched = new Set<Range>();
+
+    for (const n of next) {
+        const candidates = prev.filter(p => overlaps(p, n));
+        const p = candidates[0];
+
+        if (candidates.length !== 1 || next.filter(x => overlaps(p, x)).length !== 1) {
+            changes.push({ type: 'added', from: null, to: n });
+            continue;
+        }
+
+        matched.add(p);
+        if (p.start.isSame(n.start) && p.end.isSame(n.end)) continue;
+
+        const delta = duration(n) - duration(p);
+        if (delta > 0) {
+            changes.push({ type: 'extended', from: p, to: n });
+        } else if (delta < 0) {
+            changes.push({ type: 'shortened', from: p, to: n });
+        } else {
+            // Same length, moved in time
+            changes.push({ type: 'removed', from: p, to: null });
+            changes.push({ type: 'added', from: null, to: n });
+        }
+    }
+
+    for (const p of prev) {
+        if (!matched.has(p)) {
+            changes.push({ type: 'removed', from: p, to: null });
+        }
+    }
+
+    const startOf = (c: RangeChange) => (c.to ?? c.from)!.start.valueOf();
+    return changes.sort((a, b) => startOf(a) - startOf(b));
+}
+
+/**
+ * Format range as "HH:mm–HH:mm", midnight at the end is shown as 24:00
+ */
+export function formatRange(range: Range, separator: string = '–'): string {
+    const end = range.end.hour() === 0 && range.end.minute() === 0 && !range.end.isSame(range.start, 'day')
+        ? '24:00'
+        : range.end.format('HH:mm');
+    return `${range.start.format('HH:mm')}${separator}${end}`;
+}
+
+/**
+ * Format change in hours with a sign, e.g., "+1 година", "−2.5 години"
+ */
+export function formatHoursDelta(delta: number): string {
+    if (delta === 0) return 'без змін';
+    return `${delta > 0 ? '+' : '−'}${formatHours(Math.abs(delta))}`;
+}
+
+/**
+ * Calculate outage statistics over days with a known schedule
+ * Outages continuing past midnight into the next day count as one continuous outage
+ */
+export function calculateOutageStats(days: DaySchedule[], topHours: number = 3): OutageStats {
+    const totalHours = days.reduce((sum, d) => sum + calculateTotalHours(getOutageTimes(d)), 0);
+
+    const duration = (r: Range) => r.end.diff(r.start, 'minute');
+    const longest = mergeRanges(days.flatMap(d => d.outages))
+        .reduce<Range | null>((max, r) => !max || duration(r) > duration(max) ? r : max, null);
+
+    // Count days each hour of the day was (at least partly) without power
+    const hourCounts = Array(24).fill(0);
+    for (const d of days) {
+        for (let h = 0; h < 24; h++) {
+            const hourStart = dayjs.tz(d.date, TZ).hour(h);
+            const hourEnd = hourStart.add(1, 'hour');
+            if (d.outages.some(r => r.start.isBefore(hourEnd) && hourStart.isBefore(r.end))) {
+                hourCounts[h]++;
+            }
+        }
+    }
+    const frequentHours = hourCounts
+        .map((count, hour) => ({ hour, count }))
+        .filter(h => h.count > 0)
+        .sort((a, b) => b.count - a.count || a.hour - b.hour)
+        .slice(0, topHours)
+        .map(h => h.hour);
+
+    return {
+        days: days.length,
+        totalHours,
+        averageHours: days.length > 0 ? Math.round(totalHours / days.length * 10) / 10 : 0,
+        longest,
+        frequentHours,
+    };
+}
+
+/**
+ * Format difference between two versions of a day's schedule
+ * e.g., "➕ 18:00–20:00", "➖ 09:00–11:00", "⏱️ +1 година (разом 7 годин)" on separate lines
+ */
+export function formatScheduleDiff(prev: DaySchedule, next: DaySchedule): string {
+    const changes = diffRanges(prev.outages, next.outages);
+
+    const lines = changes.map(c => {
+        switch (c.type) {
+            case 'added': return `➕ ${formatRange(c.to!)}`;
+            case 'removed': return `➖ ${formatRange(c.from!)}`;
+            case 'extended': return `⏫ ${formatRange(c.from!)} → ${formatRange(c.to!)}`;
+            case 'shortened': return `⏬ ${formatRange(c.from!)} → ${formatRange(c.to!)}`;
+        }
+    });
+
+    const prevHours = calculateTotalHours(getOutageTimes(prev));
+    const nextHours = calculateTotalHours(getOutageTimes(next));
+    const delta = nextHours - prevHours;
+
+    if (delta !== 0) {
+        lines.push(`⏱️ ${formatHoursDelta(delta)} (разом ${formatHours(nextHours)})`);
+    } else {
+        lines.push(`⏱️ Разом без змін: ${formatHours(nextHours)}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Split a month into calendar weeks starting on Monday
+ * Days outside the month are null
+ */
+export function getCalendarWeeks(month: dayjs.Dayjs): (dayjs.Dayjs | null)[][] {
+    const first = month.startOf('month');
+    const days: (dayjs.Dayjs | null)[] = Array((first.day() + 6) % 7).fill(null);
+
+    for (let d = 0; d < first.daysInMonth(); d++) {
+        days.push(first.add(d, 'day'));
+    }
+    while (days.length % 7 !== 0) {
+        days.push(null);
+    }
+
+    const weeks = [];
+    for (let i = 0; i < days.length; i += 7) {
+        weeks.push(days.slice(i, i + 7));
+    }
+    return weeks;
+}
+
+/**
+ * Parse time window like "23:00-07:00"
+ * Returns null for invalid input or empty window
+ */
+export function parseTimeWindow(text: string): TimeWindow | null {
+    const match = text.trim().match(/^(\d{1,2}):(\d{2})\s*[-–]\s*(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const [, startH, startM, endH, endM] = match.map(Number);
+    if (startH > 23 || endH > 23 || startM > 59 || endM > 59) return null;
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const start = `${pad(startH)}:${pad(startM)}`;
+    const end = `${pad(endH)}:${pad(endM)}`;
+
+    return start === end ? null : { start, end };
+}
+
+/**
+ * Parse time of day like "7:30" into "07:30"
+ * Returns null for invalid input
+ */
+export function parseTimeOfDay(text: string): string | null {
+    const match = text.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+    if (!match) return null;
+
+    const [, hours, minutes] = match.map(Number);
+    if (hours > 23 || minutes > 59) return null;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Get the moment a daily job at "HH:mm" is due if it fell within the last graceMinutes
+ * Returns null when the job is not due
+ */
+export function getDailyDueTime(time: string, graceMinutes: number, now?: dayjs.Dayjs): dayjs.Dayjs | null {
+    now = now || dayjs().tz(TZ);
+    let due = now.hour(+time.split(':')[0]).minute(+time.split(':')[1]).second(0).millisecond(0);
+
+    // Job scheduled shortly before midnight is still due after it
+    if (due.isAfter(now)) {
+        due = due.subtract(1, 'day');
+    }
+
+    return now.diff(due, 'minute') < graceMinutes ? due : null;
+}
+
+/**
+ * Get today's outage ranges that have not ended yet
+ */
+export function getRemainingRanges(groupText: string, now?: dayjs.Dayjs): Range[] {
+    now = now || dayjs().tz(TZ);
+    return parseTimeRanges(groupText, now.startOf('day')).filter(r => r.end.isAfter(now));
+}
+
+/**
+ * Get outage ranges of today and tomorrow that have not ended yet
+ */
+export function getUpcomingRanges(todayGroupText: string, tomorrowGroupText?: string | null, now?: dayjs.Dayjs): Range[] {
+    now = now || dayjs().tz(TZ);
+    const tomorrowRanges = tomorrowGroupText
+        ? parseTimeRanges(tomorrowGroupText, now.startOf('day').add(1, 'day'))
+        : [];
+    return [...getRemainingRanges(todayGroupText, now), ...tomorrowRanges];
+}
+
+/**
+ * Check whether the moment falls into a time window (supports windows crossing midnight)
+ */
+export function isWithinTimeWindow(window: TimeWindow, now?: dayjs.Dayjs): boolean {
+    now = now || dayjs().tz(TZ);
+    const toMinutes = (hhmm: string) => +hhmm.split(':')[0] * 60 + +hhmm.split(':')[1];
+
+    const minutes = now.hour() * 60 + now.minute();
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+}
+
+/**
+ * Parse pause duration into the moment the pause ends
+ * Supports "8h", "8 год", "30m", "30 хв", "2d", "2 дні", "until tomorrow" / "до завтра" (tomorrow 08:00)
+ * Returns null for invalid input or pauses longer than 30 days
+ */
+export function parsePauseUntil(text: string, now?: dayjs.Dayjs): dayjs.Dayjs | null {
+    now = now || dayjs().tz(TZ);
+    const input = text.trim().toLowerCase();
+
+    if (/^(until tomorrow|tomorrow|до завтра|завтра)$/.test(input)) {
+        return now.add(1, 'day').hour(8).minute(0).second(0).millisecond(0);
+    }
+
+    const match = input.match(/^(\d+)\s*(m|min|хв|h|г|год|d|д|дн|дні|днів)$/);
+    if (!match) return null;
+
+    const amount = Number(match[1]);
+    const unit = match[2];
+    const minutes =
+        ['m', 'min', 'хв'].includes(unit) ? amount :
+        ['h', 'г', 'год'].includes(unit) ? amount * 60 :
+        amount * 24 * 60;
+
+    if (minutes <= 0 || minutes > 30 * 24 * 60) return null;
+    return now.add(minutes, 'minute');
+}
+
 /**
  * Format electricity status as a user-friendly message
  */
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import type { Telegraf, Context, Telegram } from 'telegraf';
+import { addRoute } from './httpServer.js';
+
+/**
+ * Settings of webhook mode
+ */
+export interface WebhookConfig {
+    url: string;     // public base URL of the HTTP server
+    secret: string;  // shared by all instances, so any of them accepts updates
+    path: string;    // unique per process, tells which instance owns the registration
+}
+
+type WebhookApi = Pick<Telegram, 'getWebhookInfo' | 'setWebhook' | 'deleteWebhook'>;
+
+/**
+ * Read webhook settings from environment, null means long polling
+ */
+export function getWebhookConfig(env: NodeJS.ProcessEnv = process.env): WebhookConfig | null {
+    const url = env.WEBHOOK_URL?.replace(/\/+$/, '');
+    if (!url) return null;
+
+    if (!env.WEBHOOK_SECRET) {
+        throw new Error('WEBHOOK_SECRET is required when WEBHOOK_URL is set');
+    }
+    return {
+        url,
+        secret: env.WEBHOOK_SECRET,
+        path: `/telegram/webhook/${crypto.randomBytes(8).toString('hex')}`,
+    };
+}
+
+/**
+ * Receive updates at the webhook path, requests without the secret token are rejected with 403
+ */
+export function addWebhookRoute(bot: Telegraf<Context>, config: WebhookConfig): void {
+    const callback = bot.webhookCallback(config.path, { secretToken: config.secret });
+    addRoute('POST', config.path, (req, res) => callback(req, res));
+}
+
+/**
+ * Register this instance's webhook with Telegram, errors are thrown
+ */
+export async function setWebhook(telegram: WebhookApi, config: WebhookConfig): Promise<void> {
+    const url = `${config.url}${config.path}`;
+    await telegram.setWebhook(url, { secret_token: config.secret });
+    console.log(`Webhook set to ${url}`);
+}
+
+/**
+ * Delete the webhook unless another instance registered its own since (e.g., after a redeploy)
+ * Returns whether it was deleted
+ */
+export async function deleteOwnWebhook(telegram: WebhookApi, config: WebhookConfig): Promise<boolean> {
+    const { url } = await telegram.getWebhookInfo();
+    if (url !== `${config.url}${config.path}`) {
+        console.log('Webhook belongs to another instance, keeping it');
+        return false;
+    }
+
+    await telegram.deleteWebhook();
+    console.log('Webhook deleted');
+    return true;
+}
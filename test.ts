@@ -2,8 +2,23 @@ import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
 import timezone from 'dayjs/plugin/timezone.js';
 import isBetween from 'dayjs/plugin/isBetween.js';
-import { getElectricityStatus, formatDuration, parseOutageTimes, formatGroupEmoji, calculateTotalHours, parseGroupFromApi, formatHours } from './src/utils.js';
+import { getElectricityStatus, formatDuration, parseOutageTimes, formatGroupEmoji, calculateTotalHours, parseGroupFromApi, formatHours, isValidGroup, sortBuildingNames, escapeMarkdown, parseStartPayload, formatGroupPayload, getDueReminders, parseTimeWindow, isWithinTimeWindow, isTodayScheduleChanged, parsePauseUntil, getScheduleChanges, formatScheduleDiff, parseDaySchedule, parseGroupSchedule, isSameGroupSchedule, extractScheduleDate, extractGroupTexts, parseAllGroupSchedules, formatGroupsTable, getCalendarWeeks, calculateOutageStats, formatHoursDelta, getUpcomingRanges, parseTimeOfDay, getDailyDueTime, getRemainingRanges, formatRange, parseAdminCommand, hasAdminPermission, parseChatIds } from './src/utils.js';
 import { TZ } from './src/types.js';
+import { buildTimelineSvg, renderTimelinePng } from './src/timeline.js';
+import { buildOutagesCalendar } from './src/ics.js';
+import { Counter, Gauge, Histogram, renderMetrics } from './src/metrics.js';
+import { JsonStorage } from './src/jsonStorage.js';
+import { SqliteStorage } from './src/sqliteStorage.js';
+import { SCHEMA_VERSION, getSchemaVersion, migrateData } from './src/migrations.js';
+import { DeliveryQueue, summarizeBroadcast, isChatUnreachable, updateDeliveryStatus, shouldDeactivate } from './src/deliveryQueue.js';
+import { PendingBroadcasts, formatBroadcastPreview, formatBroadcastReport } from './src/broadcast.js';
+import { getWebhookConfig, addWebhookRoute, deleteOwnWebhook } from './src/webhook.js';
+import { startHttpServer, stopHttpServer } from './src/httpServer.js';
+import type { StorageBackend, Subscriber } from './src/storage.js';
+import { Telegraf } from 'telegraf';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -702,6 +717,1632 @@ formatHoursTests.forEach((test, idx) => {
     }
 });
 
+// Test isValidGroup
+console.log('\n=== IS VALID GROUP TESTS ===');
+
+const isValidGroupTests = [
+    { input: '1.1', expected: true },
+    { input: '3.2', expected: true },
+    { input: '6.2', expected: true },
+    { input: '6.3', expected: false },
+    { input: '7.1', expected: false },
+    { input: '12', expected: false },
+    { input: '', expected: false },
+    { input: null, expected: false },
+];
+
+isValidGroupTests.forEach((test, idx) => {
+    const result = isValidGroup(test.input);
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. isValidGroup(${JSON.stringify(test.input)}) = ${result} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. isValidGroup(${JSON.stringify(test.input)}) | Expected: ${test.expected} | Actual: ${result} | FAIL ❌`);
+    }
+});
+
+// Test sortBuildingNames
+console.log('\n=== SORT BUILDING NAMES TESTS ===');
+
+const sortBuildingNamesTests = [
+    {
+        description: 'Numeric order, not lexicographic',
+        input: ['10', '2', '1'],
+        expected: ['1', '2', '10'],
+    },
+    {
+        description: 'Duplicates removed',
+        input: ['50', '50', '48'],
+        expected: ['48', '50'],
+    },
+    {
+        description: 'Letter suffixes after plain number',
+        input: ['2А', '10', '2'],
+        expected: ['2', '2А', '10'],
+    },
+    {
+        description: 'Empty and missing names skipped',
+        input: ['5', '', null, undefined, ' '],
+        expected: ['5'],
+    },
+];
+
+sortBuildingNamesTests.forEach((test, idx) => {
+    const result = sortBuildingNames(test.input);
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | FAIL ❌`);
+        console.log(`   Expected: ${JSON.stringify(test.expected)}`);
+        console.log(`   Actual: ${JSON.stringify(result)}`);
+    }
+});
+
+// Test escapeMarkdown
+console.log('\n=== ESCAPE MARKDOWN TESTS ===');
+
+const escapeMarkdownTests = [
+    { input: 'Дім', expected: 'Дім' },
+    { input: 'my_home', expected: 'my\\_home' },
+    { input: '*Офіс*', expected: '\\*Офіс\\*' },
+    { input: '[Батьки]', expected: '\\[Батьки]' },
+    { input: 'a`b', expected: 'a\\`b' },
+];
+
+escapeMarkdownTests.forEach((test, idx) => {
+    const result = escapeMarkdown(test.input);
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. escapeMarkdown(${JSON.stringify(test.input)}) = ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. escapeMarkdown(${JSON.stringify(test.input)}) | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+// Test parseStartPayload / formatGroupPayload
+console.log('\n=== START PAYLOAD TESTS ===');
+
+const parseStartPayloadTests = [
+    { input: 'group_1_2', expected: { type: 'group', group: '1.2' } },
+    { input: 'group_6_1', expected: { type: 'group', group: '6.1' } },
+    { input: 'group_7_1', expected: null },
+    { input: 'group_12', expected: null },
+    { input: 'share_AbC-12_x', expected: { type: 'share', token: 'AbC-12_x' } },
+    { input: 'share_', expected: null },
+    { input: 'hello', expected: null },
+    { input: '', expected: null },
+];
+
+parseStartPayloadTests.forEach((test, idx) => {
+    const result = parseStartPayload(test.input);
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. parseStartPayload(${JSON.stringify(test.input)}) = ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. parseStartPayload(${JSON.stringify(test.input)}) | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+['1.2', '3.1', '6.2'].forEach((group, idx) => {
+    const payload = formatGroupPayload(group);
+    const parsed = parseStartPayload(payload);
+    const pass = parsed?.type === 'group' && parsed.group === group;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. formatGroupPayload(${group}) = "${payload}" round-trips | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. formatGroupPayload(${group}) = "${payload}" | Parsed: ${JSON.stringify(parsed)} | FAIL ❌`);
+    }
+});
+
+// Test getDueReminders
+console.log('\n=== DUE REMINDERS TESTS ===');
+
+type ReminderTest = {
+    description: string;
+    todayGroupText: string;
+    tomorrowGroupText?: string;
+    leadMinutes: number;
+    time: string;
+    expected: string[]; // e.g. ["off 14:00 30", "on 12:00"]
+};
+
+const reminderTests: ReminderTest[] = [
+    {
+        description: 'Outage within lead time',
+        todayGroupText: "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+        leadMinutes: 30,
+        time: '13:30',
+        expected: ['off 14:00 30'],
+    },
+    {
+        description: 'Outage later than lead time',
+        todayGroupText: "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+        leadMinutes: 30,
+        time: '13:00',
+        expected: [],
+    },
+    {
+        description: 'Outage already started',
+        todayGroupText: "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+        leadMinutes: 30,
+        time: '14:05',
+        expected: [],
+    },
+    {
+        description: 'Power returns, within grace period',
+        todayGroupText: "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+        leadMinutes: 30,
+        time: '18:05',
+        expected: ['on 18:00'],
+    },
+    {
+        description: 'Power returned long ago',
+        todayGroupText: "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+        leadMinutes: 30,
+        time: '18:30',
+        expected: [],
+    },
+    {
+        description: 'Power returns and next outage is soon',
+        todayGroupText: "Група 1.2. Електроенергії немає з 08:00 до 12:00, з 12:30 до 16:00.",
+        leadMinutes: 60,
+        time: '12:00',
+        expected: ['on 12:00', 'off 12:30 30'],
+    },
+    {
+        description: 'Outage continues into tomorrow, no return at midnight',
+        todayGroupText: "Група 1.2. Електроенергії немає з 22:00 до 24:00.",
+        tomorrowGroupText: "Група 1.2. Електроенергії немає з 00:00 до 02:00.",
+        leadMinutes: 30,
+        time: '23:59',
+        expected: [],
+    },
+    {
+        description: "Tomorrow's first outage after midnight",
+        todayGroupText: "Група 1.2. Електроенергії немає з 08:00 до 12:00.",
+        tomorrowGroupText: "Група 1.2. Електроенергії немає з 00:00 до 02:00.",
+        leadMinutes: 30,
+        time: '23:45',
+        expected: ['off 00:00 15'],
+    },
+];
+
+reminderTests.forEach((test, idx) => {
+    const now = mockNow(test.time);
+    const events = getDueReminders(test.todayGroupText, test.tomorrowGroupText, test.leadMinutes, 15, now);
+    const result = events.map(e => e.type === 'off'
+        ? `off ${e.range.start.format('HH:mm')} ${e.minutesLeft}`
+        : `on ${e.range.end.format('HH:mm')}`
+    );
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} | ${test.time} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | FAIL ❌`);
+        console.log(`   Expected: ${JSON.stringify(test.expected)}`);
+        console.log(`   Actual: ${JSON.stringify(result)}`);
+    }
+});
+
+// Test parseTimeWindow / isWithinTimeWindow
+console.log('\n=== QUIET HOURS TESTS ===');
+
+const parseTimeWindowTests = [
+    { input: '23:00-07:00', expected: { start: '23:00', end: '07:00' } },
+    { input: '9:30 – 18:00', expected: { start: '09:30', end: '18:00' } },
+    { input: '22:00-22:00', expected: null },
+    { input: '24:00-07:00', expected: null },
+    { input: '23:00', expected: null },
+    { input: 'night', expected: null },
+];
+
+parseTimeWindowTests.forEach((test, idx) => {
+    const result = parseTimeWindow(test.input);
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. parseTimeWindow(${JSON.stringify(test.input)}) = ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. parseTimeWindow(${JSON.stringify(test.input)}) | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+const isWithinTimeWindowTests = [
+    { window: { start: '23:00', end: '07:00' }, time: '03:00', expected: true },
+    { window: { start: '23:00', end: '07:00' }, time: '23:00', expected: true },
+    { window: { start: '23:00', end: '07:00' }, time: '07:00', expected: false },
+    { window: { start: '23:00', end: '07:00' }, time: '12:00', expected: false },
+    { window: { start: '13:00', end: '15:00' }, time: '14:59', expected: true },
+    { window: { start: '13:00', end: '15:00' }, time: '12:59', expected: false },
+];
+
+isWithinTimeWindowTests.forEach((test, idx) => {
+    const result = isWithinTimeWindow(test.window, mockNow(test.time));
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.window.start}–${test.window.end} at ${test.time} = ${result} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.window.start}–${test.window.end} at ${test.time} | Expected: ${test.expected} | Actual: ${result} | FAIL ❌`);
+    }
+});
+
+const OUT_A = "Група 1.2. Електроенергії немає з 08:00 до 12:00.";
+const OUT_B = "Група 1.2. Електроенергії немає з 14:00 до 18:00.";
+const OUT_C = "Група 1.2. Електроенергії немає з 20:00 до 22:00.";
+const ALL_DAY = "Група 1.2. Електроенергія є протягом всього дня.";
+
+/**
+ * Build schedule of group 1.2 from group texts as fetched on the given day (0 = today)
+ */
+function mockGroupSchedule(today: string | null, tomorrow: string | null, dayOffset: number = 0) {
+    const html = (text: string | null) => text ? `<p>${text}</p>` : '';
+    return parseGroupSchedule({ today: html(today), tomorrow: html(tomorrow) }, '1.2', mockNow('12:00', dayOffset));
+}
+
+/**
+ * Build today's schedule of group 1.2 from a group text
+ */
+function mockDaySchedule(text: string) {
+    return parseDaySchedule(`<p>${text}</p>`, '1.2', mockNow('12:00'))!;
+}
+
+// Test typed schedule model
+console.log('\n=== TYPED SCHEDULE TESTS ===');
+
+const headedHtml = (date: string, info: string, text: string) =>
+    `<p>Графік погодинних відключень на ${date}</p><p>Інформація станом на ${info}</p><p>${text}</p>`;
+
+const typedScheduleTests = [
+    {
+        description: 'Schedule date from page heading',
+        actual: () => extractScheduleDate(headedHtml('18.10.2026', '21:00 17.10.2026', OUT_A)),
+        expected: '2026-10-18',
+    },
+    {
+        description: 'No page heading',
+        actual: () => extractScheduleDate(`<p>Інформація станом на 21:00 17.10.2026</p><p>${OUT_A}</p>`),
+        expected: null,
+    },
+    {
+        description: 'Day schedule ranges and flags',
+        actual: () => {
+            const day = parseDaySchedule(headedHtml('18.10.2026', '21:00 17.10.2026', OUT_A), '1.2', mockNow('12:00'))!;
+            return [day.date, day.outages.map(r => r.start.format('DD.MM HH:mm')), day.powerAllDay, day.infoTimestamp];
+        },
+        expected: ['2026-10-18', ['18.10 08:00'], false, 'Інформація станом на 21:00 17.10.2026'],
+    },
+    {
+        description: 'Power all day',
+        actual: () => mockDaySchedule(ALL_DAY).powerAllDay,
+        expected: true,
+    },
+    {
+        description: 'Missing group',
+        actual: () => parseDaySchedule(`<p>${OUT_A}</p>`, '3.1', mockNow('12:00')),
+        expected: null,
+    },
+    {
+        description: 'Only info timestamp changed',
+        actual: () => isSameGroupSchedule(
+            parseGroupSchedule({ today: headedHtml('18.10.2026', '09:00 18.10.2026', OUT_A), tomorrow: '' }, '1.2'),
+            parseGroupSchedule({ today: headedHtml('18.10.2026', '10:00 18.10.2026', OUT_A), tomorrow: '' }, '1.2'),
+        ),
+        expected: true,
+    },
+    {
+        description: 'Outage moved',
+        actual: () => isSameGroupSchedule(mockGroupSchedule(OUT_A, null), mockGroupSchedule(OUT_B, null)),
+        expected: false,
+    },
+];
+
+typedScheduleTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+// Test isTodayScheduleChanged
+console.log('\n=== TODAY SCHEDULE CHANGED TESTS ===');
+
+const isTodayScheduleChangedTests = [
+    {
+        description: 'First check is not a change',
+        prev: null,
+        next: mockGroupSchedule(OUT_A, null),
+        expected: false,
+    },
+    {
+        description: 'Same today, tomorrow published',
+        prev: mockGroupSchedule(OUT_A, null),
+        next: mockGroupSchedule(OUT_A, OUT_B),
+        expected: false,
+    },
+    {
+        description: 'Day rollover',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_B, null, 1),
+        expected: false,
+    },
+    {
+        description: 'Today changed',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_C, OUT_B),
+        expected: true,
+    },
+];
+
+isTodayScheduleChangedTests.forEach((test, idx) => {
+    const result = isTodayScheduleChanged(test.prev, test.next);
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${test.expected} | Actual: ${result} | FAIL ❌`);
+    }
+});
+
+// Test parsePauseUntil
+console.log('\n=== PARSE PAUSE TESTS ===');
+
+const pauseNow = mockNow('14:00');
+const parsePauseUntilTests = [
+    { input: '8h', expected: pauseNow.add(8, 'hour') },
+    { input: '8 год', expected: pauseNow.add(8, 'hour') },
+    { input: '30m', expected: pauseNow.add(30, 'minute') },
+    { input: '45 хв', expected: pauseNow.add(45, 'minute') },
+    { input: '2d', expected: pauseNow.add(2, 'day') },
+    { input: '3 дні', expected: pauseNow.add(3, 'day') },
+    { input: 'until tomorrow', expected: pauseNow.add(1, 'day').hour(8).minute(0) },
+    { input: 'До завтра', expected: pauseNow.add(1, 'day').hour(8).minute(0) },
+    { input: '0h', expected: null },
+    { input: '31d', expected: null },
+    { input: 'forever', expected: null },
+];
+
+parsePauseUntilTests.forEach((test, idx) => {
+    const result = parsePauseUntil(test.input, pauseNow);
+    const pass = test.expected === null
+        ? result === null
+        : result !== null && result.valueOf() === test.expected.valueOf();
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. parsePauseUntil("${test.input}") = ${result ? result.format('DD.MM HH:mm') : null} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. parsePauseUntil("${test.input}") | Expected: ${test.expected?.format('DD.MM HH:mm') ?? null} | Actual: ${result?.format('DD.MM HH:mm') ?? null} | FAIL ❌`);
+    }
+});
+
+// Test events of getScheduleChanges
+console.log('\n=== SCHEDULE CHANGE EVENTS TESTS ===');
+
+const scheduleChangeEventTests = [
+    {
+        description: 'First check',
+        prev: null,
+        next: mockGroupSchedule(OUT_A, null),
+        expected: [],
+    },
+    {
+        description: 'Tomorrow published',
+        prev: mockGroupSchedule(OUT_A, null),
+        next: mockGroupSchedule(OUT_A, OUT_B),
+        expected: ['tomorrow_published'],
+    },
+    {
+        description: 'Today changed',
+        prev: mockGroupSchedule(OUT_A, null),
+        next: mockGroupSchedule(OUT_B, null),
+        expected: ['today_changed'],
+    },
+    {
+        description: 'Tomorrow changed',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_A, OUT_C),
+        expected: ['tomorrow_changed'],
+    },
+    {
+        description: 'Today cleared',
+        prev: mockGroupSchedule(OUT_A, null),
+        next: mockGroupSchedule(ALL_DAY, null),
+        expected: ['cleared'],
+    },
+    {
+        description: 'Today and tomorrow changed',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_C, OUT_A),
+        expected: ['today_changed', 'tomorrow_changed'],
+    },
+    {
+        description: 'Day rollover',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_B, null, 1),
+        expected: [],
+    },
+    {
+        description: 'Day rollover with new tomorrow',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_B, OUT_C, 1),
+        expected: ['tomorrow_published'],
+    },
+    {
+        description: 'Today after downtime',
+        prev: mockGroupSchedule(OUT_A, null),
+        next: mockGroupSchedule(OUT_B, null, 2),
+        expected: [],
+    },
+    {
+        description: 'Tomorrow removed',
+        prev: mockGroupSchedule(OUT_A, OUT_B),
+        next: mockGroupSchedule(OUT_A, null),
+        expected: [],
+    },
+];
+
+scheduleChangeEventTests.forEach((test, idx) => {
+    const result = getScheduleChanges(test.prev, test.next).map(c => c.event);
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== SCHEDULE DIFF TESTS ===');
+
+const scheduleDiffTests = [
+    {
+        description: 'Interval moved',
+        prev: "Група 1.2. Електроенергії немає з 09:00 до 11:00, з 14:00 до 16:00.",
+        next: "Група 1.2. Електроенергії немає з 14:00 до 16:00, з 18:00 до 20:00.",
+        expected: '➖ 09:00–11:00\n➕ 18:00–20:00\n⏱️ Разом без змін: 4 години',
+    },
+    {
+        description: 'Interval added',
+        prev: "Група 1.2. Електроенергії немає з 09:00 до 11:00.",
+        next: "Група 1.2. Електроенергії немає з 09:00 до 11:00, з 18:00 до 19:00.",
+        expected: '➕ 18:00–19:00\n⏱️ +1 година (разом 3 години)',
+    },
+    {
+        description: 'Interval extended',
+        prev: "Група 1.2. Електроенергії немає з 09:00 до 11:00.",
+        next: "Група 1.2. Електроенергії немає з 08:00 до 12:00.",
+        expected: '⏫ 09:00–11:00 → 08:00–12:00\n⏱️ +2 години (разом 4 години)',
+    },
+    {
+        description: 'Interval shortened',
+        prev: "Група 1.2. Електроенергії немає з 09:00 до 13:00.",
+        next: "Група 1.2. Електроенергії немає з 10:00 до 12:30.",
+        expected: '⏬ 09:00–13:00 → 10:00–12:30\n⏱️ −1.5 години (разом 2.5 години)',
+    },
+    {
+        description: 'Schedule cleared',
+        prev: "Група 1.2. Електроенергії немає з 20:00 до 24:00.",
+        next: "Група 1.2. Електроенергія є протягом всього дня.",
+        expected: '➖ 20:00–24:00\n⏱️ −4 години (разом 0 годин)',
+    },
+];
+
+scheduleDiffTests.forEach((test, idx) => {
+    const result = formatScheduleDiff(mockDaySchedule(test.prev), mockDaySchedule(test.next));
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== DAILY DIGEST TESTS ===');
+
+const parseTimeOfDayTests = [
+    { input: '07:30', expected: '07:30' },
+    { input: '7:05', expected: '07:05' },
+    { input: '21.00', expected: '21:00' },
+    { input: '24:00', expected: null },
+    { input: '08:60', expected: null },
+    { input: 'morning', expected: null },
+];
+
+parseTimeOfDayTests.forEach((test, idx) => {
+    const result = parseTimeOfDay(test.input);
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. parseTimeOfDay(${JSON.stringify(test.input)}) = ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. parseTimeOfDay(${JSON.stringify(test.input)}) | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+const getDailyDueTimeTests = [
+    { time: '08:00', now: '08:00', expected: '08:00' },
+    { time: '08:00', now: '08:14', expected: '08:00' },
+    { time: '08:00', now: '08:15', expected: null },
+    { time: '08:00', now: '07:59', expected: null },
+    { time: '23:55', now: '00:05', expected: '23:55' },
+];
+
+getDailyDueTimeTests.forEach((test, idx) => {
+    const due = getDailyDueTime(test.time, 15, mockNow(test.now));
+    const result = due ? due.format('HH:mm') : null;
+    const pass = result === test.expected;
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. Digest at ${test.time}, now ${test.now} → ${result} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. Digest at ${test.time}, now ${test.now} | Expected: ${test.expected} | Actual: ${result} | FAIL ❌`);
+    }
+});
+
+const remainingText = "Група 1.2. Електроенергії немає з 06:00 до 08:00, з 12:00 до 14:00, з 20:00 до 24:00.";
+const getRemainingRangesTests = [
+    { now: '05:00', expected: ['06:00–08:00', '12:00–14:00', '20:00–24:00'] },
+    { now: '13:00', expected: ['12:00–14:00', '20:00–24:00'] },
+    { now: '14:00', expected: ['20:00–24:00'] },
+    { now: '23:59', expected: ['20:00–24:00'] },
+];
+
+getRemainingRangesTests.forEach((test, idx) => {
+    const result = getRemainingRanges(remainingText, mockNow(test.now)).map(r => formatRange(r));
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. Remaining at ${test.now} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. Remaining at ${test.now} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== ALL GROUPS TESTS ===');
+
+const allGroupsHtml =
+    '<p>Інформація станом на 21:00 17.10.2026</p>' +
+    '<p>Група 1.1. Електроенергії немає з 08:00 до 12:00, з 20:00 до 22:00.</p>' +
+    '<p>Група 1.2. Електроенергія є протягом всього дня.</p>' +
+    '<p>Група 2.1. Електроенергії немає з 05:30 до 12:30.</p>';
+
+const allGroupsTests = [
+    {
+        description: 'Extract all group texts',
+        actual: () => [...extractGroupTexts(allGroupsHtml).keys()],
+        expected: ['1.1', '1.2', '2.1'],
+    },
+    {
+        description: 'Every group is present',
+        actual: () => parseAllGroupSchedules({ today: allGroupsHtml, tomorrow: '' }).size,
+        expected: 12,
+    },
+    {
+        description: 'Missing group and tomorrow',
+        actual: () => {
+            const group = parseAllGroupSchedules({ today: allGroupsHtml, tomorrow: '' }).get('3.1')!;
+            return [group.today, group.tomorrow];
+        },
+        expected: [null, null],
+    },
+    {
+        description: 'Groups table',
+        actual: () => {
+            const groups = parseAllGroupSchedules({ today: allGroupsHtml, tomorrow: '' });
+            return formatGroupsTable(['1.1', '1.2', '2.1'].map(g => groups.get(g)!.today!));
+        },
+        expected: '```\n' +
+            '1.1 │    6 год │ 08:00–12:00, 20:00–22:00\n' +
+            '1.2 │    0 год │ без вимкнень\n' +
+            '2.1 │    7 год │ 05:30–12:30\n' +
+            '```',
+    },
+];
+
+allGroupsTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== CALENDAR TESTS ===');
+
+const calendarTests = [
+    { month: '2026-10', expected: { weeks: 5, first: [null, null, null, 1, 2, 3, 4], last: [26, 27, 28, 29, 30, 31, null] } },
+    { month: '2026-06', expected: { weeks: 5, first: [1, 2, 3, 4, 5, 6, 7], last: [29, 30, null, null, null, null, null] } },
+    { month: '2027-02', expected: { weeks: 4, first: [1, 2, 3, 4, 5, 6, 7], last: [22, 23, 24, 25, 26, 27, 28] } },
+];
+
+calendarTests.forEach((test, idx) => {
+    const weeks = getCalendarWeeks(dayjs.tz(`${test.month}-01`, TZ)).map(w => w.map(d => d ? d.date() : null));
+    const result = { weeks: weeks.length, first: weeks[0], last: weeks[weeks.length - 1] };
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. Calendar ${test.month} → ${result.weeks} weeks | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. Calendar ${test.month} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== OUTAGE STATS TESTS ===');
+
+const statsDays = [
+    "Група 1.2. Електроенергії немає з 20:00 до 24:00.",
+    "Група 1.2. Електроенергії немає з 00:00 до 03:00, з 14:00 до 16:00.",
+    "Група 1.2. Електроенергії немає з 14:00 до 18:00.",
+].map((text, i) => parseDaySchedule(`<p>${text}</p>`, '1.2', mockNow('12:00', i))!);
+
+const outageStatsTests = [
+    {
+        description: 'Totals and average',
+        actual: () => {
+            const stats = calculateOutageStats(statsDays);
+            return [stats.days, stats.totalHours, stats.averageHours];
+        },
+        expected: [3, 13, 4.3],
+    },
+    {
+        description: 'Longest outage across midnight',
+        actual: () => {
+            const { longest } = calculateOutageStats(statsDays);
+            return longest && [longest.start.format('HH:mm'), longest.end.diff(longest.start, 'hour')];
+        },
+        expected: ['20:00', 7],
+    },
+    {
+        description: 'Most frequent hours',
+        actual: () => calculateOutageStats(statsDays).frequentHours,
+        expected: [14, 15, 0],
+    },
+    {
+        description: 'No data',
+        actual: () => calculateOutageStats([]),
+        expected: { days: 0, totalHours: 0, averageHours: 0, longest: null, frequentHours: [] },
+    },
+    {
+        description: 'Hours delta',
+        actual: () => [formatHoursDelta(1), formatHoursDelta(-2.5), formatHoursDelta(0)],
+        expected: ['+1 година', '−2.5 години', 'без змін'],
+    },
+];
+
+outageStatsTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== TIMELINE TESTS ===');
+
+const timelineNow = mockNow('13:00');
+const timelineDays = [
+    { label: 'Сьогодні', schedule: parseDaySchedule('<p>Група 1.2. Електроенергії немає з 06:00 до 12:00, з 18:00 до 24:00.</p>', '1.2', timelineNow)! },
+    { label: 'Завтра', schedule: parseDaySchedule(`<p>${ALL_DAY}</p>`, '1.2', timelineNow.add(1, 'day'))! },
+];
+const timelineSvg = buildTimelineSvg('Група 1.2 <&>', timelineDays, timelineNow);
+
+const timelineTests = [
+    {
+        description: 'One red rect per outage',
+        actual: () => (timelineSvg.match(/class="outage"/g) ?? []).length,
+        expected: 2,
+    },
+    {
+        description: 'Outage position (06:00–12:00 of a 672px bar)',
+        actual: () => timelineSvg.includes('class="outage" x="192" y="84" width="168"'),
+        expected: true,
+    },
+    {
+        description: 'Now marker only on today',
+        actual: () => (timelineSvg.match(/class="now"/g) ?? []).length,
+        expected: 1,
+    },
+    {
+        description: 'Title is escaped',
+        actual: () => timelineSvg.includes('Група 1.2 &lt;&amp;&gt;'),
+        expected: true,
+    },
+    {
+        description: 'Rendered as PNG',
+        actual: () => renderTimelinePng('Група 1.2', timelineDays, timelineNow).subarray(1, 4).toString(),
+        expected: 'PNG',
+    },
+];
+
+timelineTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== ICALENDAR TESTS ===');
+
+const icsNow = dayjs.tz('2026-10-18 09:00', TZ);
+const icsDays = [
+    parseDaySchedule(headedHtml('18.10.2026', '21:00 17.10.2026', 'Група 1.2. Електроенергії немає з 05:30 до 12:30, з 20:00 до 24:00.'), '1.2', icsNow)!,
+    parseDaySchedule(headedHtml('19.10.2026', '21:00 18.10.2026', ALL_DAY), '1.2', icsNow.add(1, 'day'))!,
+];
+const ics = buildOutagesCalendar('1.2', icsDays, icsNow);
+const icsLines = ics.split('\r\n');
+const republishedDay = parseDaySchedule(headedHtml('18.10.2026', '08:00 18.10.2026', 'Група 1.2. Електроенергії немає з 20:00 до 24:00.'), '1.2', icsNow)!;
+const republishedLines = buildOutagesCalendar('1.2', [republishedDay], icsNow).split('\r\n');
+
+const icsTests = [
+    {
+        description: 'One event per outage',
+        actual: () => icsLines.filter(l => l === 'BEGIN:VEVENT').length,
+        expected: 2,
+    },
+    {
+        description: 'Stable UIDs',
+        actual: () => icsLines.filter(l => l.startsWith('UID:')),
+        expected: ['UID:2026-10-18-0530-1.2@lybohora-bot', 'UID:2026-10-18-2000-1.2@lybohora-bot'],
+    },
+    {
+        description: 'UID kept when an earlier outage is removed',
+        actual: () => republishedLines.filter(l => l.startsWith('UID:')),
+        expected: ['UID:2026-10-18-2000-1.2@lybohora-bot'],
+    },
+    {
+        description: 'LAST-MODIFIED from publication time',
+        actual: () => [icsLines, republishedLines].map(lines => lines.find(l => l.startsWith('LAST-MODIFIED:'))),
+        expected: ['LAST-MODIFIED:20261017T180000Z', 'LAST-MODIFIED:20261018T050000Z'],
+    },
+    {
+        description: 'SEQUENCE grows on re-published schedule',
+        actual: () => {
+            const sequence = (lines: string[]) => Number(lines.find(l => l.startsWith('SEQUENCE:'))!.slice('SEQUENCE:'.length));
+            return sequence(republishedLines) > sequence(icsLines);
+        },
+        expected: true,
+    },
+    {
+        description: 'Local times in Europe/Kyiv, 24:00 as next midnight',
+        actual: () => icsLines.filter(l => l.startsWith('DTSTART;') || l.startsWith('DTEND;')),
+        expected: [
+            'DTSTART;TZID=Europe/Kyiv:20261018T053000',
+            'DTEND;TZID=Europe/Kyiv:20261018T123000',
+            'DTSTART;TZID=Europe/Kyiv:20261018T200000',
+            'DTEND;TZID=Europe/Kyiv:20261019T000000',
+        ],
+    },
+    {
+        description: 'DTSTAMP in UTC',
+        actual: () => icsLines.find(l => l.startsWith('DTSTAMP:')),
+        expected: 'DTSTAMP:20261018T060000Z',
+    },
+    {
+        description: 'Lines folded to 75 octets',
+        actual: () => icsLines.every(l => Buffer.byteLength(l) <= 75),
+        expected: true,
+    },
+    {
+        description: 'Escaped text',
+        actual: () => ics.replace(/\r\n /g, '').includes('DESCRIPTION:Графік погодинних відключень ЛОЕ\\, група 1.2'),
+        expected: true,
+    },
+];
+
+icsTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== UPCOMING RANGES TESTS ===');
+
+const upcomingTests = [
+    {
+        description: 'Current and later outages with tomorrow',
+        actual: () => getUpcomingRanges(remainingText, OUT_A, mockNow('13:00')).map(r => r.start.format('DD.MM HH:mm')),
+        expected: [mockNow('12:00').format('DD.MM HH:mm'), mockNow('20:00').format('DD.MM HH:mm'), mockNow('08:00', 1).format('DD.MM HH:mm')],
+    },
+    {
+        description: 'Tomorrow not published',
+        actual: () => getUpcomingRanges(remainingText, null, mockNow('21:00')).map(r => formatRange(r)),
+        expected: ['20:00–24:00'],
+    },
+];
+
+upcomingTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== METRICS TESTS ===');
+
+const testCounter = new Counter('test_failures_total', 'Test failures');
+testCounter.inc({ code: '403' });
+testCounter.inc({ code: '403' });
+testCounter.inc({ code: '429' }, 3);
+const testGauge = new Gauge('test_subscribers', 'Test subscribers');
+testGauge.set(5);
+testGauge.set(7);
+const testHistogram = new Histogram('test_duration_seconds', 'Test duration', [0.5, 1]);
+testHistogram.observe(0.3, { source: 'parseSite' });
+testHistogram.observe(0.7, { source: 'parseSite' });
+testHistogram.observe(2, { source: 'parseSite' });
+const metricsLines = renderMetrics().split('\n');
+
+const metricsTests = [
+    {
+        description: 'Counter per label set',
+        actual: () => metricsLines.filter(l => l.startsWith('test_failures_total')),
+        expected: ['test_failures_total{code="403"} 2', 'test_failures_total{code="429"} 3'],
+    },
+    {
+        description: 'Counter HELP and TYPE',
+        actual: () => metricsLines.filter(l => l.startsWith('#') && l.includes('test_failures_total')),
+        expected: ['# HELP test_failures_total Test failures', '# TYPE test_failures_total counter'],
+    },
+    {
+        description: 'Gauge keeps last value',
+        actual: () => metricsLines.filter(l => l.startsWith('test_subscribers ')),
+        expected: ['test_subscribers 7'],
+    },
+    {
+        description: 'Histogram cumulative buckets, sum and count',
+        actual: () => metricsLines.filter(l => l.startsWith('test_duration_seconds')),
+        expected: [
+            'test_duration_seconds_bucket{source="parseSite",le="0.5"} 1',
+            'test_duration_seconds_bucket{source="parseSite",le="1"} 2',
+            'test_duration_seconds_bucket{source="parseSite",le="+Inf"} 3',
+            'test_duration_seconds_sum{source="parseSite"} 3',
+            'test_duration_seconds_count{source="parseSite"} 3',
+        ],
+    },
+    {
+        description: 'Escaped label values',
+        actual: () => {
+            testCounter.inc({ code: 'a"b' });
+            return renderMetrics().includes('test_failures_total{code="a\\"b"} 1');
+        },
+        expected: true,
+    },
+];
+
+metricsTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== STORAGE BACKEND TESTS ===');
+
+const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lybohora-test-'));
+const storageSubscriber = (chatId: number, name: string) => ({ chatId, name, locations: [] }) as unknown as Subscriber;
+const storageVersion = (date: string, seenAt: string) => ({ date, group: '1.1', outages: [], powerAllDay: true, infoTimestamp: null, seenAt });
+
+/**
+ * Run the same operations against a backend, results must not depend on the implementation
+ */
+function exerciseBackend(backend: StorageBackend) {
+    backend.saveSubscribers([storageSubscriber(1, 'A'), storageSubscriber(2, 'B')]);
+    backend.saveSubscribers([storageSubscriber(2, 'B2'), storageSubscriber(3, 'C')]);
+    backend.markReminderSent('old', '2026-10-01T10:00:00.000Z', '2026-10-01T00:00:00.000Z');
+    backend.markReminderSent('new', '2026-10-18T10:00:00.000Z', '2026-10-17T00:00:00.000Z');
+    backend.addScheduleVersions([storageVersion('2026-10-01', 'a'), storageVersion('2026-10-18', 'b')], '2026-09-01');
+    backend.addScheduleVersions([storageVersion('2026-10-18', 'c')], '2026-10-10');
+    backend.saveLastSchedule({ group: '1.1', today: null, tomorrow: null });
+    backend.saveGroup('2.1');
+    backend.saveAdmins([{ chatId: 1, role: 'owner', addedBy: null, addedAt: '2026-10-18T10:00:00.000Z' }]);
+    backend.saveAdmins([...backend.loadAdmins(), { chatId: 2, role: 'viewer', addedBy: 1, addedAt: '2026-10-18T11:00:00.000Z' }]);
+
+    return {
+        subscribers: backend.loadSubscribers().map(s => `${s.chatId}:${s.name}`),
+        reminders: [backend.isReminderSent('old'), backend.isReminderSent('new')],
+        history: backend.loadScheduleHistory('1.1').map(v => `${v.date}/${v.seenAt}`),
+        day: backend.loadScheduleHistory('1.1', '2026-10-18', '2026-10-18').length,
+        lastSchedule: backend.loadLastSchedule('1.1')?.group ?? null,
+        group: backend.loadGroup(),
+        admins: backend.loadAdmins().map(a => `${a.chatId}:${a.role}`),
+    };
+}
+
+const expectedBackendState = {
+    subscribers: ['2:B2', '3:C'],
+    reminders: [false, true],
+    history: ['2026-10-18/b', '2026-10-18/c'],
+    day: 2,
+    lastSchedule: '1.1',
+    group: '2.1',
+    admins: ['1:owner', '2:viewer'],
+};
+
+const importedSqlite = new SqliteStorage(':memory:');
+const importedJson = new JsonStorage(path.join(storageDir, 'data.json'), 3);
+
+const storageTests = [
+    {
+        description: 'JSON backend',
+        actual: () => exerciseBackend(new JsonStorage(path.join(storageDir, 'data.json'), 3)),
+        expected: expectedBackendState,
+    },
+    {
+        description: 'JSON backend persists to file',
+        actual: () => new JsonStorage(path.join(storageDir, 'data.json'), 3).loadSubscribers().map(s => s.chatId),
+        expected: [2, 3],
+    },
+    {
+        description: 'SQLite backend',
+        actual: () => exerciseBackend(new SqliteStorage(':memory:')),
+        expected: expectedBackendState,
+    },
+    {
+        description: 'SQLite backend persists to file',
+        actual: () => {
+            const file = path.join(storageDir, 'data.sqlite');
+            new SqliteStorage(file).saveSubscribers([storageSubscriber(5, 'E')]);
+            return new SqliteStorage(file).loadSubscribers().map(s => s.chatId);
+        },
+        expected: [5],
+    },
+    {
+        description: 'Import of JSON data into SQLite',
+        actual: () => {
+            const before = importedSqlite.hasImportedJson();
+            importedSqlite.importData(importedJson.getData());
+            return {
+                before,
+                after: importedSqlite.hasImportedJson(),
+                subscribers: importedSqlite.loadSubscribers().map(s => s.chatId),
+                history: importedSqlite.loadScheduleHistory('1.1').length,
+                reminder: importedSqlite.isReminderSent('new'),
+                group: importedSqlite.loadGroup(),
+                admins: importedSqlite.loadAdmins().length,
+            };
+        },
+        expected: { before: false, after: true, subscribers: [2, 3], history: 2, reminder: true, group: '2.1', admins: 2 },
+    },
+];
+
+storageTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+fs.rmSync(storageDir, { recursive: true, force: true });
+
+console.log('\n=== STORAGE SCHEMA TESTS ===');
+
+const schemaDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lybohora-test-'));
+const schemaFile = (name: string) => path.join(schemaDir, name);
+const unversionedData = {
+    subscribers: [123, { chatId: 5, name: 'X', group: '1.1' }],
+    group: '3.2',
+    lastState: 'old message',
+};
+
+const schemaTests = [
+    {
+        description: 'Unversioned data migrated to the current schema',
+        actual: () => {
+            const data: any = migrateData(structuredClone(unversionedData));
+            return {
+                schemaVersion: data.schemaVersion,
+                subscribers: data.subscribers.map((s: any) => [s.chatId, s.name, s.locations[0].group, s.events.length, s.digestTime]),
+                lastState: 'lastState' in data,
+            };
+        },
+        expected: {
+            schemaVersion: SCHEMA_VERSION,
+            subscribers: [[123, 'Unknown', null, 5, null], [5, 'X', '1.1', 5, null]],
+            lastState: false,
+        },
+    },
+    {
+        description: 'Current data left as is',
+        actual: () => migrateData({ schemaVersion: SCHEMA_VERSION, subscribers: [{ chatId: 1 }] }),
+        expected: { schemaVersion: SCHEMA_VERSION, subscribers: [{ chatId: 1 }] },
+    },
+    {
+        description: 'Data of a newer version refused',
+        actual: () => {
+            try {
+                return getSchemaVersion({ schemaVersion: SCHEMA_VERSION + 1 });
+            } catch {
+                return 'error';
+            }
+        },
+        expected: 'error',
+    },
+    {
+        description: 'JSON file migrated on load, original kept as backup',
+        actual: () => {
+            fs.writeFileSync(schemaFile('migrate.json'), JSON.stringify(unversionedData));
+            const storage = new JsonStorage(schemaFile('migrate.json'), 3);
+            const group = storage.loadGroup();
+            const backups = storage.listBackups();
+            return {
+                group,
+                schemaVersion: JSON.parse(fs.readFileSync(schemaFile('migrate.json'), 'utf-8')).schemaVersion,
+                backups: backups.length,
+                backupIsOriginal: backups.length > 0 && JSON.parse(fs.readFileSync(backups[0], 'utf-8')).schemaVersion === undefined,
+            };
+        },
+        expected: { group: '3.2', schemaVersion: SCHEMA_VERSION, backups: 1, backupIsOriginal: true },
+    },
+    {
+        description: 'Corrupt JSON file is not overwritten',
+        actual: () => {
+            fs.writeFileSync(schemaFile('corrupt.json'), '{"subscribers": [');
+            const storage = new JsonStorage(schemaFile('corrupt.json'), 3);
+            let error = false;
+            try {
+                storage.saveGroup('1.1');
+            } catch {
+                error = true;
+            }
+            return { error, content: fs.readFileSync(schemaFile('corrupt.json'), 'utf-8') };
+        },
+        expected: { error: true, content: '{"subscribers": [' },
+    },
+    {
+        description: 'Backups rotated, no temporary file left',
+        actual: () => {
+            fs.writeFileSync(schemaFile('rotate.json'), JSON.stringify({ schemaVersion: SCHEMA_VERSION, group: '1.1' }));
+            ['01', '02', '03'].forEach(day => fs.writeFileSync(schemaFile(`rotate.json.2026-10-${day}T00-00-00-000Z.bak`), '{}'));
+            new JsonStorage(schemaFile('rotate.json'), 2).saveGroup('2.2');
+
+            const storage = new JsonStorage(schemaFile('rotate.json'), 2);
+            const backups = storage.listBackups().map(file => path.basename(file));
+            return {
+                backups: backups.length,
+                oldestKept: backups[0],
+                tmp: fs.existsSync(schemaFile('rotate.json.tmp')),
+                group: storage.loadGroup(),
+            };
+        },
+        expected: { backups: 2, oldestKept: 'rotate.json.2026-10-03T00-00-00-000Z.bak', tmp: false, group: '2.2' },
+    },
+];
+
+schemaTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+fs.rmSync(schemaDir, { recursive: true, force: true });
+
+console.log('\n=== DELIVERY QUEUE TESTS ===');
+
+const telegramError = (code: number, retryAfter?: number) =>
+    Object.assign(new Error(`Error ${code}`), { response: { error_code: code, parameters: retryAfter === undefined ? {} : { retry_after: retryAfter } } });
+const fastQueue = (options = {}) => new DeliveryQueue({ globalPerSecond: 1000, perChatIntervalMs: 0, retryBaseMs: 1, ...options });
+
+/**
+ * Send that fails with the given errors first, then succeeds
+ */
+function flakySend(errors: Error[]) {
+    let calls = 0;
+    return async () => {
+        if (calls < errors.length) throw errors[calls++];
+        calls++;
+    };
+}
+
+const concurrencyQueue = fastQueue({ concurrency: 2 });
+let inFlight = 0;
+let maxInFlight = 0;
+const concurrencyResults = await Promise.all([1, 2, 3, 4, 5, 6].map(chatId => concurrencyQueue.send(chatId, async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+})));
+
+const rateLimited = await fastQueue().send(1, flakySend([telegramError(429, 0), telegramError(429, 0)]));
+const blocked = await fastQueue().send(1, flakySend([telegramError(403)]));
+const networkDown = await fastQueue({ maxRetries: 2 }).send(1, flakySend([new Error('ECONNRESET'), new Error('ECONNRESET'), new Error('ECONNRESET')]));
+
+const chatQueue = fastQueue({ perChatIntervalMs: 40 });
+const sentAt: number[] = [];
+await Promise.all([1, 1].map(chatId => chatQueue.send(chatId, async () => { sentAt.push(Date.now()); })));
+
+const backoffQueue = fastQueue({ concurrency: 2, retryBaseMs: 200 });
+const backoffStart = Date.now();
+const otherChatsSentAt: number[] = [];
+await Promise.all([
+    backoffQueue.send(1, flakySend([new Error('ECONNRESET')])),
+    ...[2, 3, 4].map(chatId => backoffQueue.send(chatId, async () => { otherChatsSentAt.push(Date.now() - backoffStart); })),
+]);
+
+const broadcastSummary = await summarizeBroadcast('Test', [
+    fastQueue().send(1, flakySend([])),
+    fastQueue().send(2, flakySend([telegramError(429, 0)])),
+    fastQueue().send(3, flakySend([telegramError(400)])),
+    Promise.resolve(null),
+]);
+
+const deliveryTests = [
+    {
+        description: 'All sends delivered',
+        actual: () => concurrencyResults.every(r => r.ok),
+        expected: true,
+    },
+    {
+        description: 'Bounded concurrency',
+        actual: () => maxInFlight,
+        expected: 2,
+    },
+    {
+        description: 'Retried after 429',
+        actual: () => ({ ok: rateLimited.ok, retries: rateLimited.retries }),
+        expected: { ok: true, retries: 2 },
+    },
+    {
+        description: 'Blocked chat not retried',
+        actual: () => ({ ok: blocked.ok, retries: blocked.retries, code: blocked.error.response.error_code }),
+        expected: { ok: false, retries: 0, code: 403 },
+    },
+    {
+        description: 'Network errors retried up to the limit',
+        actual: () => ({ ok: networkDown.ok, retries: networkDown.retries }),
+        expected: { ok: false, retries: 2 },
+    },
+    {
+        description: 'Sends to one chat spaced out',
+        actual: () => sentAt.length === 2 && sentAt[1] - sentAt[0] >= 35,
+        expected: true,
+    },
+    {
+        description: 'Backoff of one chat does not delay other chats',
+        actual: () => otherChatsSentAt.length === 3 && otherChatsSentAt.every(ms => ms < 100),
+        expected: true,
+    },
+    {
+        description: 'Broadcast summary',
+        actual: () => broadcastSummary,
+        expected: { sent: 2, retried: 1, failed: 1, skipped: 1 },
+    },
+];
+
+deliveryTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== DELIVERY STATUS TESTS ===');
+
+const telegramFailure = (code: number, description: string) =>
+    Object.assign(new Error(description), { response: { error_code: code, description } });
+const blockedError = telegramFailure(403, 'Forbidden: bot was blocked by the user');
+const markdownError = telegramFailure(400, "Bad Request: can't parse entities");
+const deliveryStart = new Date('2026-10-18T10:00:00Z');
+const hoursLater = (hours: number) => new Date(deliveryStart.getTime() + hours * 60 * 60 * 1000);
+const freshStatus = { lastSuccessAt: null, consecutiveFailures: 0, failingSince: null, lastErrorCode: null, lastErrorDescription: null };
+const failedOnce = updateDeliveryStatus(freshStatus, blockedError, deliveryStart);
+const failedTwice = updateDeliveryStatus(failedOnce, blockedError, hoursLater(30));
+const GRACE_MS = 24 * 60 * 60 * 1000;
+
+const deliveryStatusTests = [
+    {
+        description: 'Blocked and deleted chats are unreachable',
+        actual: () => [blockedError, telegramFailure(400, 'Bad Request: chat not found'), markdownError].map(isChatUnreachable),
+        expected: [true, true, false],
+    },
+    {
+        description: 'Failure recorded',
+        actual: () => failedOnce,
+        expected: {
+            lastSuccessAt: null,
+            consecutiveFailures: 1,
+            failingSince: '2026-10-18T10:00:00.000Z',
+            lastErrorCode: 403,
+            lastErrorDescription: 'Forbidden: bot was blocked by the user',
+        },
+    },
+    {
+        description: 'Consecutive failures keep the first failure time',
+        actual: () => [failedTwice.consecutiveFailures, failedTwice.failingSince],
+        expected: [2, '2026-10-18T10:00:00.000Z'],
+    },
+    {
+        description: 'Success resets failures, keeps last error',
+        actual: () => updateDeliveryStatus(failedTwice, null, hoursLater(31)),
+        expected: {
+            lastSuccessAt: '2026-10-19T17:00:00.000Z',
+            consecutiveFailures: 0,
+            failingSince: null,
+            lastErrorCode: 403,
+            lastErrorDescription: 'Forbidden: bot was blocked by the user',
+        },
+    },
+    {
+        description: 'Not deactivated within the grace period',
+        actual: () => shouldDeactivate(failedOnce, blockedError, GRACE_MS, deliveryStart),
+        expected: false,
+    },
+    {
+        description: 'Deactivated after the grace period',
+        actual: () => shouldDeactivate(failedTwice, blockedError, GRACE_MS, hoursLater(30)),
+        expected: true,
+    },
+    {
+        description: 'Malformed message never deactivates',
+        actual: () => shouldDeactivate(failedTwice, markdownError, GRACE_MS, hoursLater(30)),
+        expected: false,
+    },
+    {
+        description: 'Existing subscribers migrated as active',
+        actual: () => {
+            const data: any = migrateData({ schemaVersion: 4, subscribers: [{ chatId: 1 }] });
+            return [data.subscribers[0].inactiveSince, data.subscribers[0].delivery.consecutiveFailures];
+        },
+        expected: [null, 0],
+    },
+];
+
+deliveryStatusTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== ADMIN ROLES TESTS ===');
+
+const adminTests = [
+    {
+        description: 'List by default',
+        actual: () => [parseAdminCommand(''), parseAdminCommand(' list ')],
+        expected: [{ action: 'list' }, { action: 'list' }],
+    },
+    {
+        description: 'Add with default role',
+        actual: () => parseAdminCommand('add 123'),
+        expected: { action: 'add', chatId: 123, role: 'admin' },
+    },
+    {
+        description: 'Add with role, group chat id',
+        actual: () => parseAdminCommand('add -100123 viewer'),
+        expected: { action: 'add', chatId: -100123, role: 'viewer' },
+    },
+    {
+        description: 'Remove',
+        actual: () => parseAdminCommand('remove 123'),
+        expected: { action: 'remove', chatId: 123 },
+    },
+    {
+        description: 'Invalid commands',
+        actual: () => ['add', 'add abc', 'add 123 toString', 'add 123 admin x', 'remove 123 admin', 'list 1', 'grant 1'].map(parseAdminCommand),
+        expected: [null, null, null, null, null, null, null],
+    },
+    {
+        description: 'Permissions by role',
+        actual: () => (['owner', 'admin', 'viewer', null] as const).map(role =>
+            (['debug', 'broadcast', 'configure'] as const).filter(p => hasAdminPermission(role, p))
+        ),
+        expected: [['debug', 'broadcast', 'configure'], ['debug', 'broadcast'], ['debug'], []],
+    },
+    {
+        description: 'Chat ids from environment',
+        actual: () => [parseChatIds('433221506, -100123,,x'), parseChatIds(undefined)],
+        expected: [[433221506, -100123], []],
+    },
+    {
+        description: 'Admins added by migration',
+        actual: () => (migrateData({ schemaVersion: 5, subscribers: [] }) as any).admins,
+        expected: [],
+    },
+];
+
+adminTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== ADMIN BROADCAST TESTS ===');
+
+const BROADCAST_TTL_MS = 60_000;
+const broadcastStart = Date.parse('2026-10-18T10:00:00Z');
+const pendingBroadcasts = new PendingBroadcasts<string>(BROADCAST_TTL_MS);
+const sentToken = pendingBroadcasts.add(1, 'announcement', broadcastStart);
+const otherAdminTake = pendingBroadcasts.take(sentToken, 2, broadcastStart + 1000);
+const confirmedTake = pendingBroadcasts.take(sentToken, 1, broadcastStart + 2000);
+const repeatedTake = pendingBroadcasts.take(sentToken, 1, broadcastStart + 3000);
+const expiredToken = pendingBroadcasts.add(1, 'late', broadcastStart);
+const expiredTake = pendingBroadcasts.take(expiredToken, 1, broadcastStart + BROADCAST_TTL_MS);
+const droppedToken = pendingBroadcasts.add(1, 'stale', broadcastStart);
+pendingBroadcasts.add(1, 'fresh', broadcastStart + BROADCAST_TTL_MS);
+const droppedTake = pendingBroadcasts.take(droppedToken, 1, broadcastStart);
+
+const adminBroadcastTests = [
+    {
+        description: 'Token usable in callback data',
+        actual: () => /^[\w-]{8}$/.test(sentToken) && `broadcast:send:${sentToken}`.length <= 64,
+        expected: true,
+    },
+    {
+        description: 'Another admin cannot confirm',
+        actual: () => otherAdminTake,
+        expected: null,
+    },
+    {
+        description: 'Creator confirms once',
+        actual: () => [confirmedTake, repeatedTake],
+        expected: ['announcement', null],
+    },
+    {
+        description: 'Expired broadcast not sent',
+        actual: () => expiredTake,
+        expected: null,
+    },
+    {
+        description: 'Expired broadcasts dropped on add',
+        actual: () => droppedTake,
+        expected: null,
+    },
+    {
+        description: 'Preview with recipients',
+        actual: () => formatBroadcastPreview(12, 0),
+        expected: '📣 *Попередній перегляд розсилки*\nОтримувачів: 12',
+    },
+    {
+        description: 'Preview mentions paused subscribers',
+        actual: () => formatBroadcastPreview(12, 3),
+        expected: '📣 *Попередній перегляд розсилки*\nОтримувачів: 12\n⏸ На паузі (не отримають): 3',
+    },
+    {
+        description: 'Report with delivered and failed counts',
+        actual: () => formatBroadcastReport({ sent: 10, retried: 1, failed: 2, skipped: 0 }),
+        expected: '✅ *Розсилку завершено*\nДоставлено: 10\nНе доставлено: 2',
+    },
+];
+
+adminBroadcastTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
+console.log('\n=== WEBHOOK TESTS ===');
+
+const webhookConfig = getWebhookConfig({ WEBHOOK_URL: 'https://bot.example.com/', WEBHOOK_SECRET: 'secret' })!;
+const missingSecretError = (() => {
+    try {
+        getWebhookConfig({ WEBHOOK_URL: 'https://bot.example.com' });
+        return null;
+    } catch (err: any) {
+        return err.message;
+    }
+})();
+
+// Updates handled by a bot that never calls the API
+const webhookBot = new Telegraf('123:test');
+webhookBot.botInfo = { id: 123, is_bot: true, first_name: 'Test', username: 'test_bot' } as any;
+const receivedUpdates: number[] = [];
+webhookBot.on('message', ctx => {
+    receivedUpdates.push(ctx.message.message_id);
+});
+addWebhookRoute(webhookBot, webhookConfig);
+
+const WEBHOOK_TEST_PORT = 18791;
+await startHttpServer(WEBHOOK_TEST_PORT);
+const postUpdate = async (path: string, secret: string | null) => {
+    const update = { update_id: 1, message: { message_id: 7, date: 0, chat: { id: 1, type: 'private', first_name: 'A' }, text: 'hi' } };
+    const res = await fetch(`http://localhost:${WEBHOOK_TEST_PORT}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(secret ? { 'X-Telegram-Bot-Api-Secret-Token': secret } : {}) },
+        body: JSON.stringify(update),
+    });
+    return res.status;
+};
+const webhookStatuses = [
+    await postUpdate(webhookConfig.path, null),
+    await postUpdate(webhookConfig.path, 'wrong'),
+    await postUpdate('/telegram/webhook', 'secret'),
+    await postUpdate(webhookConfig.path, 'secret'),
+];
+stopHttpServer();
+
+/**
+ * Telegram API stub with the given registered webhook URL
+ */
+function webhookApi(url: string) {
+    const calls: string[] = [];
+    const api = {
+        getWebhookInfo: async () => ({ url }),
+        setWebhook: async () => true,
+        deleteWebhook: async () => {
+            calls.push('deleteWebhook');
+            return true;
+        },
+    } as any;
+    return { api, calls };
+}
+const ownWebhook = webhookApi(`https://bot.example.com${webhookConfig.path}`);
+const ownDeleted = await deleteOwnWebhook(ownWebhook.api, webhookConfig);
+const otherWebhook = webhookApi('https://bot.example.com/telegram/webhook/other');
+const otherDeleted = await deleteOwnWebhook(otherWebhook.api, webhookConfig);
+
+const webhookTests = [
+    {
+        description: 'Long polling without WEBHOOK_URL',
+        actual: () => getWebhookConfig({}),
+        expected: null,
+    },
+    {
+        description: 'Webhook mode requires WEBHOOK_SECRET',
+        actual: () => missingSecretError,
+        expected: 'WEBHOOK_SECRET is required when WEBHOOK_URL is set',
+    },
+    {
+        description: 'Config with trimmed URL and per-process path',
+        actual: () => ({ url: webhookConfig.url, secret: webhookConfig.secret, path: /^\/telegram\/webhook\/[0-9a-f]{16}$/.test(webhookConfig.path) }),
+        expected: { url: 'https://bot.example.com', secret: 'secret', path: true },
+    },
+    {
+        description: 'Updates without the secret token rejected, other paths not found',
+        actual: () => webhookStatuses,
+        expected: [403, 403, 404, 200],
+    },
+    {
+        description: 'Update with the secret token handled',
+        actual: () => receivedUpdates,
+        expected: [7],
+    },
+    {
+        description: 'Own webhook deleted on shutdown',
+        actual: () => ({ deleted: ownDeleted, calls: ownWebhook.calls }),
+        expected: { deleted: true, calls: ['deleteWebhook'] },
+    },
+    {
+        description: 'Webhook of another instance kept',
+        actual: () => ({ deleted: otherDeleted, calls: otherWebhook.calls }),
+        expected: { deleted: false, calls: [] },
+    },
+];
+
+webhookTests.forEach((test, idx) => {
+    const result = test.actual();
+    const pass = JSON.stringify(result) === JSON.stringify(test.expected);
+
+    if (pass) {
+        passCount++;
+        console.log(`${idx + 1}. ${test.description} → ${JSON.stringify(result)} | PASS ✅`);
+    } else {
+        failCount++;
+        console.log(`${idx + 1}. ${test.description} | Expected: ${JSON.stringify(test.expected)} | Actual: ${JSON.stringify(result)} | FAIL ❌`);
+    }
+});
+
 console.log('\n=== FINAL SUMMARY ===');
 console.log(`Total: ${passCount + failCount} | Passed: ${passCount} ✅ | Failed: ${failCount} ❌`);
 